@@ -0,0 +1,86 @@
+// The ANProto message card on the data-structures slide. Parsing and
+// verification live in client/anproto.js, which the playground loads in the
+// browser too, so both check messages with the same code.
+
+import {
+  type AnprotoMessage,
+  type AnprotoVerification,
+  parseContent,
+  parseMessage,
+  splitMessage,
+  verifyMessage,
+} from "./client/anproto.js";
+import { escapeHtml } from "./util.ts";
+
+export {
+  AnprotoError,
+  type AnprotoContent,
+  type AnprotoMessage,
+  type AnprotoVerification,
+  exportPubkey,
+  hashContent,
+  parseContent,
+  parseMessage,
+  signMessage,
+  splitMessage,
+  verifyMessage,
+} from "./client/anproto.js";
+
+function shorten(value: string): string {
+  return value.length > 16 ? `<span title="${escapeHtml(value)}">${escapeHtml(value.slice(0, 12))}…</span>` : escapeHtml(value);
+}
+
+function renderUnverified(source: string, reason: string): string {
+  return `<div class="anproto-message">
+<pre><code>${escapeHtml(source.trim())}</code></pre>
+<p class="anproto-badge anproto-invalid">✗ ${escapeHtml(reason)}</p>
+</div>`;
+}
+
+/**
+ * Renders an example message for a slide from a file holding the signed
+ * message, a blank line, then the content blob (one trailing newline is not
+ * part of the content): the raw text, the decoded fields and a ✓/✗ badge.
+ * A message that can't be parsed or checked gets a ✗ badge with the reason
+ * rather than failing the whole deck.
+ */
+export async function renderAnprotoMessage(source: string): Promise<string> {
+  const { signed, content } = splitMessage(source.replace(/\r\n?/g, "\n").replace(/\n$/, ""));
+
+  let message: AnprotoMessage;
+  let verification: AnprotoVerification;
+  try {
+    message = parseMessage(signed);
+    verification = await verifyMessage(message, content);
+  } catch (error) {
+    return renderUnverified(source, (error as Error).message);
+  }
+
+  const fields = content === undefined ? {} : parseContent(content).fields;
+  const rows: [string, string][] = [
+    ["pubkey", shorten(message.pubkey)],
+    ["signature", shorten(message.signature)],
+    [
+      "timestamp",
+      `<time datetime="${new Date(message.timestamp).toISOString()}">${
+        new Date(message.timestamp).toISOString().slice(0, 19).replace("T", " ")
+      } UTC</time>`,
+    ],
+    ["hash", shorten(message.hash)],
+    ...Object.entries(fields).map(([key, value]): [string, string] => [escapeHtml(key), shorten(value)]),
+  ];
+
+  const checks = [`signature ${verification.signature ? "✓" : "✗"}`];
+  if (verification.hash !== null) checks.push(`content hash ${verification.hash ? "✓" : "✗"}`);
+  const valid = verification.signature && verification.hash !== false;
+  const title = verification.hash === false
+    ? ` title="${escapeHtml(`The content hashes to ${verification.contentHash}, not ${message.hash}`)}"`
+    : "";
+  const text = [signed.trim(), message.opened, content].filter((part) => part !== undefined).join("\n\n");
+
+  return `<div class="anproto-message">
+<pre><code>${escapeHtml(text)}</code></pre>
+<dl class="anproto-fields">${rows.map(([name, value]) => `<dt>${name}</dt><dd>${value}</dd>`).join("")}</dl>
+<p class="anproto-badge ${valid ? "anproto-valid" : "anproto-invalid"}"${title}>${valid ? "✓" : "✗"} ${checks.join(" · ")}</p>
+</div>`;
+}
@@ -0,0 +1,81 @@
+import assert from "node:assert/strict";
+import {
+  AnprotoError,
+  parseContent,
+  parseMessage,
+  renderAnprotoMessage,
+  signMessage,
+  splitMessage,
+  verifyMessage,
+} from "./anproto.ts";
+
+const example = await Deno.readTextFile(new URL("./anproto-message.txt", import.meta.url));
+const { signed, content } = splitMessage(example.replace(/\n$/, ""));
+
+Deno.test("the example message verifies against its content", async () => {
+  const message = parseMessage(signed);
+  assert.deepEqual(await verifyMessage(message, content), { signature: true, hash: true, contentHash: message.hash });
+
+  const html = await renderAnprotoMessage(example);
+  assert.match(html, /class="anproto-badge anproto-valid">✓ signature ✓ · content hash ✓</);
+});
+
+Deno.test("edited content fails the hash but keeps the signature", async () => {
+  const result = await verifyMessage(parseMessage(signed), content?.replace("6pm", "7pm"));
+  assert.equal(result.signature, true);
+  assert.equal(result.hash, false);
+});
+
+Deno.test("a tampered signed payload fails the signature", async () => {
+  const message = parseMessage(signed);
+  const later = { ...message, opened: `${message.timestamp + 1}${message.hash}` };
+  assert.equal((await verifyMessage(later)).signature, false);
+});
+
+Deno.test("parseMessage reads the timestamp and hash", () => {
+  const message = parseMessage(signed);
+  assert.equal(message.pubkey, signed.slice(0, 44));
+  assert.equal(message.opened, `${message.timestamp}${message.hash}`);
+  assert.match(message.hash, /^[A-Za-z0-9+/]{43}=$/);
+});
+
+Deno.test("parseMessage rejects text that isn't a signed message", () => {
+  assert.throws(() => parseMessage("not a message"), AnprotoError);
+  assert.throws(() => parseMessage(signed.slice(0, 60)), AnprotoError);
+});
+
+Deno.test("parseContent reads frontmatter fields", () => {
+  assert.deepEqual(parseContent("---\nname: alyssa\nprevious: abc=\n---\nhi"), {
+    fields: { name: "alyssa", previous: "abc=" },
+    body: "hi",
+  });
+  assert.deepEqual(parseContent("just text"), { fields: {}, body: "just text" });
+});
+
+Deno.test("splitMessage keeps the content byte for byte", () => {
+  assert.deepEqual(splitMessage("msg"), { signed: "msg" });
+  assert.deepEqual(splitMessage("\nmsg\n"), { signed: "msg" });
+  assert.deepEqual(splitMessage("msg\n\nhi\n"), { signed: "msg", content: "hi\n" });
+  assert.deepEqual(splitMessage("msg\nhi"), { signed: "msg", content: "hi" });
+  assert.deepEqual(splitMessage("msg\n\n  "), { signed: "msg", content: "  " });
+});
+
+Deno.test("content ending in a newline verifies, and blank content is checked", async () => {
+  const keys = await crypto.subtle.generateKey({ name: "Ed25519" }, false, ["sign", "verify"]) as CryptoKeyPair;
+  const blob = "---\nname: ben\n---\nsee you there\n";
+  const { signed, content } = splitMessage(`${await signMessage(keys, blob)}\n\n${blob}`);
+  assert.equal(content, blob);
+  assert.equal((await verifyMessage(parseMessage(signed), content)).hash, true);
+  assert.equal((await verifyMessage(parseMessage(signed), " ")).hash, false);
+});
+
+Deno.test("a key WebCrypto rejects renders as unverified instead of throwing", async () => {
+  const importKey = crypto.subtle.importKey;
+  crypto.subtle.importKey = () => Promise.reject(new DOMException("Invalid key data", "DataError"));
+  try {
+    const html = await renderAnprotoMessage(example);
+    assert.match(html, /class="anproto-badge anproto-invalid">✗ Invalid key data</);
+  } finally {
+    crypto.subtle.importKey = importKey;
+  }
+});
@@ -0,0 +1,180 @@
+// ANProto messages: parsing, signing and verification with WebCrypto. The
+// server's anproto.ts and the playground page both import this module, so the
+// slide and the browser check messages with the same code.
+//
+// A signed message is the author's ed25519 public key followed by the signed
+// payload, both base64, with nothing between them:
+//
+//   <pubkey: 44 chars><base64 of signature (64 bytes) + timestamp + hash>
+//
+// The signed text is a 13-digit millisecond timestamp followed by the base64
+// SHA-256 of the content blob, which may open with a `---` frontmatter block
+// (`name`, `previous`, ...). `previous` is the hash of the author's previous
+// signed message.
+
+/**
+ * @typedef {object} AnprotoMessage
+ * @property {string} pubkey Base64 ed25519 public key.
+ * @property {string} signature Base64 ed25519 signature over `opened`.
+ * @property {number} timestamp Milliseconds since the epoch.
+ * @property {string} hash Base64 SHA-256 of the content blob.
+ * @property {string} opened The signed text: the timestamp followed by the hash.
+ */
+
+/**
+ * @typedef {object} AnprotoContent
+ * @property {Record<string, string>} fields `key: value` lines from the frontmatter, such as `name` and `previous`.
+ * @property {string} body
+ */
+
+/**
+ * @typedef {object} AnprotoVerification
+ * @property {boolean} signature
+ * @property {boolean | null} hash Whether the content hashes to the signed hash; null without content.
+ * @property {string} [contentHash] The hash of the content that was checked.
+ */
+
+export class AnprotoError extends Error {
+  /** @param {string} message */
+  constructor(message) {
+    super(message);
+    this.name = "AnprotoError";
+  }
+}
+
+const pubkeyLength = 44;
+const signatureBytes = 64;
+const encoder = new TextEncoder();
+
+/**
+ * @param {string} text
+ * @param {string} what
+ */
+function fromBase64(text, what) {
+  try {
+    return Uint8Array.from(atob(text), (ch) => ch.charCodeAt(0));
+  } catch {
+    throw new AnprotoError(`${what} is not valid base64`);
+  }
+}
+
+/** @param {Uint8Array} bytes */
+function toBase64(bytes) {
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+}
+
+/**
+ * Splits a signed message into its fields. Throws an AnprotoError.
+ * @param {string} text
+ * @returns {AnprotoMessage}
+ */
+export function parseMessage(text) {
+  const message = text.trim();
+  const pubkey = message.slice(0, pubkeyLength);
+  if (fromBase64(pubkey, "The public key").length !== 32) {
+    throw new AnprotoError("The public key is not 32 bytes");
+  }
+  const payload = fromBase64(message.slice(pubkeyLength), "The signed payload");
+  if (payload.length <= signatureBytes) throw new AnprotoError("The signed payload is too short");
+
+  const opened = new TextDecoder().decode(payload.slice(signatureBytes));
+  const match = opened.match(/^(\d{13})([A-Za-z0-9+/]{43}=)$/);
+  if (!match) throw new AnprotoError("The signed text is not a timestamp followed by a SHA-256 hash");
+  return {
+    pubkey,
+    signature: toBase64(payload.slice(0, signatureBytes)),
+    timestamp: Number(match[1]),
+    hash: match[2],
+    opened,
+  };
+}
+
+/**
+ * Splits a signed message on its first line from the content blob after it.
+ * One blank line may separate them; everything after that is the content,
+ * byte for byte. Without anything after the first line there is no content.
+ * @param {string} text
+ * @returns {{ signed: string; content?: string }}
+ */
+export function splitMessage(text) {
+  const start = text.replace(/^\s+/, "");
+  const end = start.indexOf("\n");
+  if (end === -1 || end === start.length - 1) return { signed: start.trim() };
+  const rest = start.slice(end + 1);
+  return { signed: start.slice(0, end).trim(), content: rest.startsWith("\n") ? rest.slice(1) : rest };
+}
+
+/**
+ * Reads a content blob's frontmatter; the rest is its body.
+ * @param {string} blob
+ * @returns {AnprotoContent}
+ */
+export function parseContent(blob) {
+  /** @type {Record<string, string>} */
+  const fields = {};
+  const lines = blob.split("\n");
+  if (lines[0]?.trim() !== "---") return { fields, body: blob };
+  const end = lines.indexOf("---", 1);
+  if (end === -1) return { fields, body: blob };
+  for (const line of lines.slice(1, end)) {
+    const match = line.match(/^([\w-]+):\s*(.*)$/);
+    if (match) fields[match[1]] = match[2].trim();
+  }
+  return { fields, body: lines.slice(end + 1).join("\n") };
+}
+
+/**
+ * Base64 SHA-256, as ANProto hashes content and messages.
+ * @param {string} content
+ */
+export async function hashContent(content) {
+  return toBase64(new Uint8Array(await crypto.subtle.digest("SHA-256", encoder.encode(content))));
+}
+
+/**
+ * Checks the signature and, when given the content, its hash.
+ * @param {AnprotoMessage} message
+ * @param {string} [content]
+ * @returns {Promise<AnprotoVerification>}
+ */
+export async function verifyMessage(message, content) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    fromBase64(message.pubkey, "The public key"),
+    { name: "Ed25519" },
+    false,
+    ["verify"],
+  );
+  const signature = await crypto.subtle.verify(
+    "Ed25519",
+    key,
+    fromBase64(message.signature, "The signature"),
+    encoder.encode(message.opened),
+  );
+  if (content === undefined) return { signature, hash: null };
+  const contentHash = await hashContent(content);
+  return { signature, hash: contentHash === message.hash, contentHash };
+}
+
+/**
+ * The base64 public key messages signed with `keys` start with.
+ * @param {CryptoKeyPair} keys
+ */
+export async function exportPubkey(keys) {
+  return toBase64(new Uint8Array(await crypto.subtle.exportKey("raw", keys.publicKey)));
+}
+
+/**
+ * Signs a content blob with an ed25519 key pair, returning the message.
+ * @param {CryptoKeyPair} keys
+ * @param {string} content
+ * @param {number} [timestamp]
+ */
+export async function signMessage(keys, content, timestamp = Date.now()) {
+  const opened = encoder.encode(`${timestamp}${await hashContent(content)}`);
+  const signature = new Uint8Array(await crypto.subtle.sign("Ed25519", keys.privateKey, opened));
+  const payload = new Uint8Array(signature.length + opened.length);
+  payload.set(signature);
+  payload.set(opened, signature.length);
+  return (await exportPubkey(keys)) + toBase64(payload);
+}
@@ -0,0 +1,40 @@
+// Dev mode client, added to every page by `server.ts --dev`. When deck
+// sources change, deck pages fetch themselves again and swap the slides and
+// styles in place, staying on the current slide. Anything else (scripts,
+// images, the server restarting) reloads the page; the `#/N` hash keeps the
+// slide there too.
+(() => {
+  const inPlace = /\.(md|css|json|ya?ml)$/i;
+  let bootId = null;
+
+  const swap = async () => {
+    const response = await fetch(location.href, { cache: "no-store" });
+    const next = new DOMParser().parseFromString(await response.text(), "text/html");
+    const main = document.querySelector("main");
+    const nextMain = next.querySelector("main");
+    const style = document.querySelector("head > style");
+    const nextStyle = next.querySelector("head > style");
+    if (!main || !nextMain) throw new Error("no <main> to swap");
+    if (style && nextStyle) style.textContent = nextStyle.textContent;
+    main.innerHTML = nextMain.innerHTML;
+    globalThis.deck.refresh();
+  };
+
+  const reload = (paths) => {
+    const canSwap = globalThis.deck && globalThis.deck.refresh && !globalThis.deck.print &&
+      paths.every((path) => inPlace.test(path));
+    if (!canSwap) {
+      location.reload();
+      return;
+    }
+    swap().catch(() => location.reload());
+  };
+
+  const events = new EventSource("/dev/events");
+  events.addEventListener("hello", (event) => {
+    const data = JSON.parse(event.data);
+    if (bootId && bootId !== data.bootId) location.reload();
+    bootId = data.bootId;
+  });
+  events.addEventListener("reload", (event) => reload(JSON.parse(event.data).paths));
+})();
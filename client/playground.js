@@ -0,0 +1,127 @@
+// ANProto playground: makes an ed25519 keypair, signs messages whose
+// `previous` chains to the last one, and verifies pasted messages, all with
+// WebCrypto in the page. The message format lives in anproto.js, shared with
+// the slide that shows the example message.
+import {
+  exportPubkey,
+  hashContent,
+  parseContent,
+  parseMessage,
+  signMessage,
+  splitMessage,
+  verifyMessage,
+} from "./anproto.js";
+
+const $ = (id) => document.getElementById(id);
+const support = $("support");
+const generate = $("generate");
+const pubkeyInput = $("pubkey");
+const nameInput = $("name");
+const previousInput = $("previous");
+const previousHint = $("previousHint");
+const contentInput = $("content");
+const sign = $("sign");
+const signed = $("signed");
+const copy = $("copy");
+const pasted = $("pasted");
+const verify = $("verify");
+const result = $("result");
+
+const fail = (message) => {
+  support.textContent = message;
+  support.classList.add("error");
+};
+
+if (!globalThis.crypto?.subtle) {
+  fail("Signing needs a secure context: open this page over https or on localhost.");
+  generate.disabled = true;
+  verify.disabled = true;
+}
+
+let keys = null;
+
+generate.addEventListener("click", async () => {
+  try {
+    keys = await crypto.subtle.generateKey({ name: "Ed25519" }, false, ["sign", "verify"]);
+  } catch {
+    fail("This browser can't make ed25519 keys with WebCrypto yet.");
+    return;
+  }
+  pubkeyInput.value = await exportPubkey(keys);
+  previousInput.value = "";
+  previousHint.textContent = "";
+  sign.disabled = false;
+});
+
+// The content blob: a `---` frontmatter block with the fields that are set,
+// then the message.
+const buildContent = (fields, body) => {
+  const lines = Object.entries(fields).filter(([, value]) => value).map(([key, value]) => key + ": " + value);
+  return lines.length ? "---\n" + lines.join("\n") + "\n---\n" + body : body;
+};
+
+sign.addEventListener("click", async () => {
+  if (!keys) return;
+  const content = buildContent(
+    { name: nameInput.value.trim(), previous: previousInput.value.trim() },
+    contentInput.value,
+  );
+  const message = await signMessage(keys, content);
+
+  signed.textContent = message + "\n\n" + content;
+  signed.hidden = false;
+  copy.hidden = false;
+  // The next message points back at this one by its hash.
+  previousInput.value = await hashContent(message);
+  previousHint.textContent = "(hash of the message above)";
+});
+
+const showResult = (rows, valid, text) => {
+  result.replaceChildren();
+  if (rows.length) {
+    const list = document.createElement("dl");
+    rows.forEach(([name, value]) => {
+      const term = document.createElement("dt");
+      const detail = document.createElement("dd");
+      term.textContent = name;
+      detail.textContent = value;
+      list.append(term, detail);
+    });
+    result.appendChild(list);
+  }
+  const badge = document.createElement("p");
+  badge.className = "badge " + (valid ? "valid" : "invalid");
+  badge.textContent = (valid ? "✓ " : "✗ ") + text;
+  result.appendChild(badge);
+};
+
+// The pasted content is hashed exactly as it is, trailing newlines included.
+const runVerify = async () => {
+  const { signed: text, content } = splitMessage(pasted.value);
+  let message;
+  let verification;
+  try {
+    message = parseMessage(text);
+    verification = await verifyMessage(message, content);
+  } catch (error) {
+    showResult([], false, error.message);
+    return;
+  }
+
+  const rows = [
+    ["pubkey", message.pubkey],
+    ["signature", message.signature],
+    ["timestamp", new Date(message.timestamp).toISOString()],
+    ["hash", message.hash],
+    ...Object.entries(content === undefined ? {} : parseContent(content).fields),
+  ];
+  const checks = ["signature " + (verification.signature ? "✓" : "✗")];
+  if (verification.hash !== null) checks.push("content hash " + (verification.hash ? "✓" : "✗"));
+  showResult(rows, verification.signature && verification.hash !== false, checks.join(" · "));
+};
+
+verify.addEventListener("click", runVerify);
+copy.addEventListener("click", () => {
+  pasted.value = signed.textContent;
+  runVerify();
+});
@@ -0,0 +1,169 @@
+// Presenter view: drives the audience windows of the same deck over a
+// BroadcastChannel, and every follower over the server's live session, and
+// shows notes, previews and a timer for the speaker.
+(() => {
+  const data = JSON.parse(document.getElementById("presenter-data").textContent);
+  const total = data.slides.length;
+  const channel = "BroadcastChannel" in window ? new BroadcastChannel("deck:" + data.slug) : null;
+
+  const counter = document.getElementById("counter");
+  const currentFrame = document.getElementById("currentFrame");
+  const nextFrame = document.getElementById("nextFrame");
+  const nextPreview = document.getElementById("nextPreview");
+  const currentTitle = document.getElementById("currentTitle");
+  const nextTitle = document.getElementById("nextTitle");
+  const notes = document.getElementById("notes");
+  const elapsedEl = document.getElementById("elapsed");
+  const remainingEl = document.getElementById("remaining");
+  const timerToggle = document.getElementById("timerToggle");
+
+  let current = 0;
+  let step = 0;
+
+  const frameUrl = (index) => data.deckUrl + "?embed#/" + (index + 1);
+
+  const render = () => {
+    const slide = data.slides[current];
+    const next = data.slides[current + 1];
+    counter.textContent = "Slide " + (current + 1) + " / " + total +
+      (slide && slide.builds ? " · build " + step + " / " + slide.builds : "");
+    currentTitle.textContent = slide ? slide.title : "";
+    nextTitle.textContent = next ? next.title : "—";
+    currentFrame.src = frameUrl(current);
+    nextPreview.classList.toggle("done", !next);
+    if (next) nextFrame.src = frameUrl(current + 1);
+    notes.innerHTML = slide && slide.notes ? slide.notes : '<p class="empty">No notes for this slide.</p>';
+    history.replaceState(null, "", "#/" + (current + 1));
+  };
+
+  const buildsOf = (index) => (data.slides[index] ? data.slides[index].builds : 0);
+
+  const show = (index, nextStep = 0) => {
+    current = Math.max(0, Math.min(total - 1, index));
+    step = Math.max(0, Math.min(buildsOf(current), nextStep));
+    render();
+  };
+
+  const goTo = (index, nextStep = 0) => {
+    show(index, nextStep);
+    if (!running && elapsed === 0) toggleTimer();
+    if (channel) channel.postMessage({ type: "slide", index: current, step });
+    sendLive({ type: "goto", index: current, step });
+  };
+
+  // Build steps come before the next slide, as on the audience deck.
+  const advance = (dir) => {
+    if (dir > 0 && step < buildsOf(current)) {
+      goTo(current, step + 1);
+    } else if (dir < 0 && step > 0) {
+      goTo(current, step - 1);
+    } else {
+      const target = Math.max(0, Math.min(total - 1, current + dir));
+      if (target !== current) goTo(target, dir < 0 ? buildsOf(target) : 0);
+    }
+  };
+
+  const isElsewhere = (message) => message.index !== current || (message.step || 0) !== step;
+
+  if (channel) {
+    channel.addEventListener("message", (event) => {
+      const message = event.data || {};
+      if (message.type === "slide" && isElsewhere(message)) show(message.index, message.step || 0);
+    });
+  }
+
+  let socket = null;
+  const sendLive = (message) => {
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const connectLive = () => {
+    socket = new WebSocket(
+      (location.protocol === "https:" ? "wss://" : "ws://") + location.host + data.deckUrl + "/live",
+    );
+    socket.addEventListener("open", () => {
+      sendLive({ type: "hello", key: data.presenterKey });
+      sendLive({ type: "goto", index: current, step });
+    });
+    socket.addEventListener("message", (event) => {
+      const message = JSON.parse(event.data);
+      if (message.type === "slide" && isElsewhere(message)) show(message.index, message.step || 0);
+    });
+    socket.addEventListener("close", () => setTimeout(connectLive, 3000));
+  };
+  connectLive();
+
+  // Timer: elapsed time since the talk started, plus time left when the deck
+  // declares a `duration` in minutes.
+  let elapsed = 0;
+  let running = false;
+  let startedAt = 0;
+
+  const format = (ms) => {
+    const seconds = Math.floor(Math.abs(ms) / 1000);
+    const text = Math.floor(seconds / 60) + ":" + String(seconds % 60).padStart(2, "0");
+    return ms < 0 ? "-" + text : text;
+  };
+
+  const now = () => (running ? elapsed + Date.now() - startedAt : elapsed);
+
+  const tick = () => {
+    const spent = now();
+    elapsedEl.textContent = format(spent);
+    if (data.duration) {
+      const left = data.duration * 60000 - spent;
+      remainingEl.textContent = format(left) + " left";
+      remainingEl.classList.toggle("over", left < 0);
+    }
+  };
+
+  function toggleTimer() {
+    if (running) {
+      elapsed = now();
+      running = false;
+    } else {
+      startedAt = Date.now();
+      running = true;
+    }
+    timerToggle.textContent = running ? "Pause" : "Start";
+    tick();
+  }
+
+  timerToggle.addEventListener("click", toggleTimer);
+  document.getElementById("timerReset").addEventListener("click", () => {
+    elapsed = 0;
+    startedAt = Date.now();
+    tick();
+  });
+  setInterval(tick, 500);
+
+  document.getElementById("prev").addEventListener("click", () => advance(-1));
+  document.getElementById("next").addEventListener("click", () => advance(1));
+  document.getElementById("openAudience").addEventListener("click", () => {
+    globalThis.open(data.deckUrl + "#/" + (current + 1), "audience-" + data.slug);
+  });
+
+  addEventListener("keydown", (event) => {
+    if (event.key === "ArrowRight" || event.key === "PageDown" || event.key === " ") {
+      event.preventDefault();
+      advance(1);
+    } else if (event.key === "ArrowLeft" || event.key === "PageUp") {
+      event.preventDefault();
+      advance(-1);
+    }
+  });
+
+  // Previews render at 1280x720 and are scaled to whatever space they get.
+  const fit = (frame) => {
+    const box = frame.parentElement;
+    new ResizeObserver(() => {
+      frame.style.transform = "scale(" + box.clientWidth / 1280 + ")";
+    }).observe(box);
+  };
+  fit(currentFrame);
+  fit(nextFrame);
+
+  const match = location.hash.match(/^#\/(\d+)/);
+  show(match ? Number(match[1]) - 1 : 0);
+  tick();
+})();
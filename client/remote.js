@@ -0,0 +1,109 @@
+// Phone remote: pairs with a deck session by code and drives it through the
+// server. The last code is remembered so a locked phone reconnects by itself.
+(() => {
+  const pairForm = document.getElementById("pairForm");
+  const codeInput = document.getElementById("code");
+  const pairStatus = document.getElementById("pairStatus");
+  const controlsView = document.getElementById("controlsView");
+  const deckTitle = document.getElementById("deckTitle");
+  const counter = document.getElementById("counter");
+  const title = document.getElementById("title");
+  const notes = document.getElementById("notes");
+  const status = document.getElementById("status");
+
+  let socket = null;
+  let slides = [];
+  let current = 0;
+  let step = 0;
+  let code = "";
+
+  const render = () => {
+    const slide = slides[current];
+    counter.textContent = "Slide " + (current + 1) + " / " + slides.length +
+      (slide && slide.builds ? " · build " + step + " / " + slide.builds : "");
+    title.textContent = slide ? slide.title : "";
+    notes.innerHTML = slide && slide.notes ? slide.notes : '<p class="empty">No notes for this slide.</p>';
+  };
+
+  const goTo = (index, nextStep = 0) => {
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+    const safe = Math.max(0, Math.min(slides.length - 1, index));
+    socket.send(JSON.stringify({ type: "goto", index: safe, step: nextStep }));
+    if (navigator.vibrate) navigator.vibrate(15);
+  };
+
+  const buildsOf = (index) => (slides[index] ? slides[index].builds : 0);
+
+  // Build steps come before the next slide, as on the audience deck.
+  const advance = (dir) => {
+    if (dir > 0 && step < buildsOf(current)) {
+      goTo(current, step + 1);
+    } else if (dir < 0 && step > 0) {
+      goTo(current, step - 1);
+    } else {
+      const target = Math.max(0, Math.min(slides.length - 1, current + dir));
+      if (target !== current) goTo(target, dir < 0 ? buildsOf(target) : 0);
+    }
+  };
+
+  const connect = () => {
+    socket = new WebSocket(
+      (location.protocol === "https:" ? "wss://" : "ws://") + location.host +
+        "/remote/live?code=" + encodeURIComponent(code),
+    );
+    const opened = socket;
+
+    socket.addEventListener("message", (event) => {
+      const message = JSON.parse(event.data);
+      if (message.type === "error") {
+        code = "";
+        localStorage.removeItem("deck-remote-code");
+        pairForm.hidden = false;
+        controlsView.hidden = true;
+        pairStatus.textContent = message.message;
+        pairStatus.classList.add("error");
+      } else if (message.type === "deck") {
+        slides = message.slides;
+        deckTitle.textContent = message.title;
+        localStorage.setItem("deck-remote-code", code);
+        pairForm.hidden = true;
+        controlsView.hidden = false;
+        status.textContent = "Connected · " + code;
+        render();
+      } else if (message.type === "slide") {
+        current = message.index;
+        step = message.step || 0;
+        render();
+      }
+    });
+
+    socket.addEventListener("close", () => {
+      if (!code || socket !== opened) return;
+      status.textContent = "Reconnecting…";
+      setTimeout(connect, 2000);
+    });
+  };
+
+  const pair = (value) => {
+    code = value.trim().toUpperCase();
+    if (!code) return;
+    pairStatus.textContent = "Pairing…";
+    pairStatus.classList.remove("error");
+    connect();
+  };
+
+  pairForm.addEventListener("submit", (event) => {
+    event.preventDefault();
+    pair(codeInput.value);
+  });
+
+  document.getElementById("prev").addEventListener("click", () => advance(-1));
+  document.getElementById("next").addEventListener("click", () => advance(1));
+
+  const fromUrl = new URLSearchParams(location.search).get("code");
+  const saved = fromUrl || localStorage.getItem("deck-remote-code");
+  if (saved) {
+    codeInput.value = saved;
+    pair(saved);
+  }
+})();
@@ -0,0 +1,528 @@
+// Shared deck runtime: dot navigation, keyboard and swipe controls, and
+// `#/N` deep links that survive reloads and work with back/forward.
+//
+// `?embed` turns a page into a passive preview (used by the presenter view):
+// no controls, and it only moves when its hash changes. Other windows of the
+// same deck stay in lockstep over a BroadcastChannel.
+//
+// Audience pages also follow the presenter's live session over WebSocket.
+// Navigating by hand breaks away from it until "Back to live" is clicked.
+//
+// Embeds whose site can't be reached (offline, blocked, timed out) swap to
+// their local fallback; `?offline` forces the fallbacks for rehearsal.
+//
+// `?print` lays every slide out as its own 16:9 page for saving a PDF
+// handout, with embeds on their fallbacks and animations frozen.
+//
+// Slides with `data-builds="N"` take N extra presses of the arrow keys: step k
+// reveals `[data-build="k"]` elements (or adds their `data-build-class`).
+// Previews and printouts always show the last step.
+//
+// Tables wrapped in `.table-interactive` get sorting, hiding, reordering and
+// value highlighting, with the view kept in the query string.
+(() => {
+  let slides = Array.from(document.querySelectorAll(".slide"));
+  const nav = document.querySelector(".nav");
+  const embedded = new URLSearchParams(location.search).has("embed");
+  const printing = new URLSearchParams(location.search).has("print");
+  const slug = document.body.dataset.deck;
+  const channel = !embedded && !printing && slug && "BroadcastChannel" in window
+    ? new BroadcastChannel("deck:" + slug)
+    : null;
+  let current = 0;
+  let step = 0;
+
+  let live = false;
+  let following = true;
+  let liveIndex = 0;
+  let liveStep = 0;
+
+  const slideFromHash = () => {
+    const match = location.hash.match(/^#\/(\d+)/);
+    return match ? Number(match[1]) - 1 : 0;
+  };
+
+  const clampIndex = (index) => Math.max(0, Math.min(slides.length - 1, index));
+  const buildsOf = (index) => Number((slides[index] && slides[index].dataset.builds) || 0);
+
+  const applyBuilds = (slide, reached) => {
+    slide.querySelectorAll("[data-build]").forEach((el) => {
+      el.classList.toggle(el.dataset.buildClass || "built", reached >= Number(el.dataset.build));
+    });
+  };
+
+  const show = (index, nextStep = 0) => {
+    const safe = clampIndex(index);
+    const builds = buildsOf(safe);
+    slides.forEach((slide, idx) => slide.classList.toggle("active", idx === safe));
+    nav.querySelectorAll(".dot").forEach((dot, idx) => dot.classList.toggle("active", idx === safe));
+    current = safe;
+    step = embedded || printing ? builds : Math.max(0, Math.min(builds, nextStep));
+    if (slides[safe]) applyBuilds(slides[safe], step);
+    document.dispatchEvent(new CustomEvent("deck:slide", { detail: { index: safe, step } }));
+  };
+
+  const goTo = (index, nextStep = 0) => {
+    show(index, nextStep);
+    const hash = "#/" + (current + 1);
+    if (location.hash !== hash) {
+      history.pushState(null, "", hash);
+    }
+    if (channel) channel.postMessage({ type: "slide", index: current, step });
+    breakAway();
+  };
+
+  if (channel) {
+    channel.addEventListener("message", (event) => {
+      const message = event.data || {};
+      if (message.type !== "slide") return;
+      if (message.index === current && (message.step || 0) === step) return;
+      show(message.index, message.step || 0);
+      history.replaceState(null, "", "#/" + (current + 1));
+    });
+  }
+
+  // Builds come first: forward reveals the next step, back hides the last
+  // one, and backing into a slide lands on its final step.
+  const advance = (dir) => {
+    if (dir > 0 && step < buildsOf(current)) {
+      goTo(current, step + 1);
+    } else if (dir < 0 && step > 0) {
+      goTo(current, step - 1);
+    } else {
+      const target = clampIndex(current + dir);
+      if (target !== current) goTo(target, dir < 0 ? buildsOf(target) : 0);
+    }
+  };
+
+  const renderDots = () => {
+    nav.innerHTML = "";
+    slides.forEach((_, idx) => {
+      const dot = document.createElement("button");
+      dot.className = "dot";
+      dot.setAttribute("aria-label", "Slide " + (idx + 1));
+      dot.addEventListener("click", () => goTo(idx));
+      nav.appendChild(dot);
+    });
+  };
+
+  if (embedded || printing) {
+    nav.hidden = true;
+  } else {
+    renderDots();
+  }
+  show(slideFromHash());
+
+  // Back/forward and hand-edited URLs land here; pushState itself does not.
+  addEventListener("hashchange", () => {
+    show(slideFromHash());
+    if (channel) channel.postMessage({ type: "slide", index: current, step });
+    breakAway();
+  });
+
+  let embeds = Array.from(document.querySelectorAll(".embed[data-embed]"));
+  const forceOffline = new URLSearchParams(location.search).has("offline");
+
+  const setOffline = (embed, offline) => {
+    const wasOffline = embed.classList.contains("offline");
+    embed.classList.toggle("offline", offline);
+    const frame = embed.querySelector("iframe");
+    // An iframe that already failed keeps its error page until reloaded.
+    if (wasOffline && !offline && frame) frame.setAttribute("src", frame.src);
+  };
+
+  // A no-cors request can't read the response, but it rejects when the site
+  // is unreachable, which is all we need to know.
+  const probeEmbeds = () => {
+    embeds.forEach((embed) => {
+      if (forceOffline || printing || !navigator.onLine) {
+        setOffline(embed, true);
+        return;
+      }
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), 6000);
+      fetch(embed.dataset.embed, { method: "HEAD", mode: "no-cors", cache: "no-store", signal: controller.signal })
+        .then(() => setOffline(embed, false), () => setOffline(embed, true))
+        .finally(() => clearTimeout(timer));
+    });
+  };
+
+  probeEmbeds();
+  addEventListener("offline", () => embeds.forEach((embed) => setOffline(embed, true)));
+  addEventListener("online", probeEmbeds);
+
+  const printStyle = `
+    @page { size: 1280px 720px; margin: 0; }
+    html.print-mode body {
+      display: block; padding: 0; min-height: 0; background: none;
+      -webkit-print-color-adjust: exact; print-color-adjust: exact;
+    }
+    html.print-mode main { width: auto; }
+    html.print-mode *, html.print-mode *::before, html.print-mode *::after {
+      animation: none !important; transition: none !important;
+    }
+    .print-page {
+      width: 1280px; height: 720px; overflow: hidden;
+      display: flex; align-items: center; justify-content: center;
+      break-after: page; page-break-after: always;
+    }
+    .print-page > .slide { display: block; width: 1180px; min-height: 660px; margin: 0; transform: none; }
+  `;
+
+  // Each slide gets a page-sized wrapper carrying the page background, and
+  // slides taller than the page are zoomed out until they fit.
+  const preparePrint = () => {
+    const style = document.createElement("style");
+    style.textContent = printStyle;
+    document.head.appendChild(style);
+
+    const body = getComputedStyle(document.body);
+    const pages = slides.map((slide, idx) => {
+      applyBuilds(slide, buildsOf(idx));
+      const page = document.createElement("div");
+      page.className = "print-page";
+      page.style.backgroundColor = body.backgroundColor;
+      page.style.backgroundImage = body.backgroundImage;
+      slide.before(page);
+      page.appendChild(slide);
+      return page;
+    });
+    document.documentElement.classList.add("print-mode");
+
+    const fit = () => {
+      pages.forEach((page) => {
+        const slide = page.firstElementChild;
+        slide.style.zoom = "";
+        const scale = Math.min(1, 660 / slide.offsetHeight);
+        if (scale < 1) slide.style.zoom = String(scale);
+      });
+    };
+    fit();
+    addEventListener("load", fit);
+    addEventListener("beforeprint", fit);
+  };
+
+  if (printing) preparePrint();
+
+  // Tables included with `| interactive` can be explored after the talk.
+  // Clicking a row label colours that row's values by which ones match, and
+  // clicking a value highlights the columns that share it. Header cells drag to
+  // reorder and × hides them, and rows of numbers (years) sort the columns.
+  // The view lives in the query string so a link reopens it.
+  const cellValue = (cell) =>
+    Array.from(cell.childNodes)
+      .filter((node) => !(node.classList && node.classList.contains("table-cite")))
+      .map((node) => node.textContent)
+      .join("")
+      .trim();
+
+  const setupTable = (box) => {
+    const table = box.querySelector("table");
+    if (!table || box.dataset.ready) return;
+    box.dataset.ready = "true";
+    const rows = Array.from(table.rows);
+    const headCells = Array.from(rows[0].cells);
+    const bodyRows = rows.slice(1);
+    const names = headCells.map((cell) => cell.dataset.column || cell.textContent.trim());
+    const columns = names.slice(1);
+    const param = (key) => (box.dataset.table ? box.dataset.table + "." : "") + key;
+
+    // Cells move around, so each remembers the column it started in.
+    rows.forEach((row) => Array.from(row.cells).forEach((cell, index) => (cell.dataset.col = index)));
+    const cellsOf = (row) => {
+      const cells = [];
+      Array.from(row.cells).forEach((cell) => (cells[cell.dataset.col] = cell));
+      return cells;
+    };
+    const columnOf = (name) => names.indexOf(name);
+    const labelOf = (row) => cellValue(cellsOf(row)[0]);
+
+    const query = new URLSearchParams(location.search);
+    const listParam = (key) =>
+      (query.get(param(key)) || "").split(",").map((name) => name.trim()).filter((name) => columns.includes(name));
+    const order = listParam("cols");
+    const state = {
+      order: order.concat(columns.filter((name) => !order.includes(name))),
+      hidden: new Set(listParam("hide")),
+      row: query.get(param("row")),
+      match: query.get(param("match")),
+    };
+
+    const save = () => {
+      const params = new URLSearchParams(location.search);
+      const set = (key, value) => (value ? params.set(param(key), value) : params.delete(param(key)));
+      set("cols", state.order.join(",") === columns.join(",") ? "" : state.order.join(","));
+      set("hide", Array.from(state.hidden).join(","));
+      set("row", state.row);
+      set("match", state.row && state.match);
+      const search = params.toString().replace(/%2C/g, ",");
+      history.replaceState(history.state, "", location.pathname + (search ? "?" + search : "") + location.hash);
+    };
+
+    const selectedRow = () => bodyRows.find((row) => labelOf(row) === state.row);
+
+    const tools = document.createElement("div");
+    tools.className = "table-tools";
+    box.appendChild(tools);
+
+    const apply = () => {
+      const indices = [0].concat(state.order.map(columnOf));
+      rows.forEach((row) => {
+        const cells = cellsOf(row);
+        indices.forEach((index) => {
+          row.appendChild(cells[index]);
+          cells[index].hidden = state.hidden.has(names[index]);
+        });
+      });
+      table.classList.toggle(
+        "table-rearranged",
+        state.hidden.size > 0 || state.order.join(",") !== columns.join(","),
+      );
+
+      const selected = selectedRow();
+      const groups = new Map();
+      bodyRows.forEach((row) => {
+        row.classList.toggle("row-selected", row === selected);
+        cellsOf(row).forEach((cell) => {
+          delete cell.dataset.group;
+          cell.style.removeProperty("--group-hue");
+          cell.classList.remove("column-match", "column-dim");
+        });
+      });
+      if (selected) {
+        cellsOf(selected).slice(1).forEach((cell) => {
+          const value = cellValue(cell).toLowerCase();
+          if (!groups.has(value)) groups.set(value, groups.size);
+          cell.dataset.group = groups.get(value);
+          cell.style.setProperty("--group-hue", (groups.get(value) * 137) % 360);
+        });
+        if (state.match) {
+          const matched = cellsOf(selected).map((cell) => cellValue(cell).toLowerCase() === state.match.toLowerCase());
+          rows.forEach((row) => {
+            cellsOf(row).slice(1).forEach((cell, index) => {
+              cell.classList.add(matched[index + 1] ? "column-match" : "column-dim");
+            });
+          });
+        }
+      }
+
+      tools.replaceChildren();
+      state.hidden.forEach((name) => {
+        const show = document.createElement("button");
+        show.type = "button";
+        show.textContent = "Show " + name;
+        show.addEventListener("click", () => update(() => state.hidden.delete(name)));
+        tools.appendChild(show);
+      });
+      if (table.classList.contains("table-rearranged") || state.row) {
+        const reset = document.createElement("button");
+        reset.type = "button";
+        reset.textContent = "Reset table";
+        reset.addEventListener("click", () =>
+          update(() => {
+            state.order = columns.slice();
+            state.hidden.clear();
+            state.row = null;
+            state.match = null;
+          })
+        );
+        tools.appendChild(reset);
+      }
+    };
+
+    const update = (change) => {
+      change();
+      apply();
+      save();
+    };
+
+    // Rows whose every value starts with a number sort the columns by it.
+    const leadingNumber = (cell) => parseFloat(cellValue(cell));
+    bodyRows.forEach((row) => {
+      const cells = cellsOf(row);
+      if (!cells.slice(1).every((cell) => /^\d/.test(cellValue(cell)))) return;
+      const sort = document.createElement("button");
+      sort.type = "button";
+      sort.className = "table-sort";
+      sort.textContent = "⇅";
+      sort.setAttribute("aria-label", "Sort columns by " + labelOf(row));
+      sort.addEventListener("click", (event) => {
+        event.stopPropagation();
+        update(() => {
+          const value = (name) => leadingNumber(cells[columnOf(name)]);
+          const ascending = state.order.slice().sort((a, b) => value(a) - value(b));
+          state.order = ascending.join(",") === state.order.join(",") ? ascending.reverse() : ascending;
+        });
+      });
+      cells[0].appendChild(sort);
+    });
+
+    headCells.slice(1).forEach((cell) => {
+      const name = names[cell.dataset.col];
+      const hide = document.createElement("button");
+      hide.type = "button";
+      hide.className = "table-hide";
+      hide.textContent = "×";
+      hide.setAttribute("aria-label", "Hide " + name);
+      hide.addEventListener("click", () => update(() => state.hidden.add(name)));
+      (cell.querySelector(".table-head") || cell).appendChild(hide);
+
+      cell.draggable = true;
+      cell.addEventListener("dragstart", (event) => {
+        event.dataTransfer.setData("text/plain", name);
+        event.dataTransfer.effectAllowed = "move";
+        cell.classList.add("dragging");
+      });
+      cell.addEventListener("dragend", () => cell.classList.remove("dragging"));
+      cell.addEventListener("dragover", (event) => event.preventDefault());
+      cell.addEventListener("drop", (event) => {
+        event.preventDefault();
+        const dragged = event.dataTransfer.getData("text/plain");
+        if (!columns.includes(dragged) || dragged === name) return;
+        const rect = cell.getBoundingClientRect();
+        const after = event.clientX > rect.left + rect.width / 2;
+        update(() => {
+          state.order = state.order.filter((column) => column !== dragged);
+          state.order.splice(state.order.indexOf(name) + (after ? 1 : 0), 0, dragged);
+        });
+      });
+    });
+
+    table.addEventListener("click", (event) => {
+      const cell = event.target.closest("td");
+      if (!cell || event.target.closest("a, button")) return;
+      const label = labelOf(cell.parentElement);
+      const value = cellValue(cell);
+      update(() => {
+        if (cell.dataset.col === "0") {
+          state.row = state.row === label ? null : label;
+          state.match = null;
+        } else if (state.row === label && state.match === value) {
+          state.match = null;
+        } else {
+          state.row = label;
+          state.match = value;
+        }
+      });
+    });
+
+    apply();
+  };
+
+  const setupTables = () => {
+    if (embedded || printing) return;
+    document.querySelectorAll(".table-interactive").forEach(setupTable);
+  };
+  setupTables();
+
+  // Dev mode swaps in freshly rendered slides; pick them up and stay put.
+  const refresh = () => {
+    slides = Array.from(document.querySelectorAll(".slide"));
+    embeds = Array.from(document.querySelectorAll(".embed[data-embed]"));
+    if (!nav.hidden) renderDots();
+    show(current, step);
+    probeEmbeds();
+    setupTables();
+  };
+
+  globalThis.deck = {
+    goTo,
+    advance,
+    refresh,
+    print: printing,
+    get current() {
+      return current;
+    },
+    get step() {
+      return step;
+    },
+    get total() {
+      return slides.length;
+    },
+  };
+
+  if (embedded || printing) return;
+
+  const livePill = document.createElement("button");
+  livePill.type = "button";
+  livePill.hidden = true;
+  livePill.style.cssText = [
+    "position: fixed", "top: 14px", "right: 14px", "z-index: 20",
+    "padding: 6px 14px", "border-radius: 999px", "font: inherit", "font-size: 0.85rem",
+    "color: #fff", "background: rgba(0, 0, 0, 0.55)", "border: 1px solid rgba(255, 255, 255, 0.3)",
+    "cursor: pointer",
+  ].join(";");
+  document.body.appendChild(livePill);
+
+  function updateLivePill() {
+    livePill.hidden = !live;
+    livePill.textContent = following ? "● Live" : "Back to live (slide " + (liveIndex + 1) + ")";
+  }
+
+  function breakAway() {
+    if (live && (current !== liveIndex || step !== liveStep)) {
+      following = false;
+      updateLivePill();
+    }
+  }
+
+  const followLive = () => {
+    following = true;
+    goTo(liveIndex, liveStep);
+    updateLivePill();
+  };
+
+  livePill.addEventListener("click", () => {
+    if (!following) followLive();
+  });
+
+  const connectLive = () => {
+    const socket = new WebSocket(
+      (location.protocol === "https:" ? "wss://" : "ws://") + location.host + "/deck/" + slug + "/live",
+    );
+    socket.addEventListener("message", (event) => {
+      const message = JSON.parse(event.data);
+      if (message.type !== "slide") return;
+      const wasLive = live;
+      live = message.live;
+      liveIndex = message.index;
+      liveStep = message.step || 0;
+      if (live && !wasLive) following = true;
+      if (live && following && (liveIndex !== current || liveStep !== step)) {
+        show(liveIndex, liveStep);
+        history.replaceState(null, "", "#/" + (current + 1));
+      }
+      updateLivePill();
+    });
+    socket.addEventListener("close", () => {
+      live = false;
+      updateLivePill();
+      setTimeout(connectLive, 3000);
+    });
+  };
+
+  // Exported copies, on disk or static hosting, have no server to follow.
+  if (slug && location.protocol.startsWith("http") && !("static" in document.body.dataset)) connectLive();
+
+  addEventListener("keydown", (event) => {
+    if (event.key === "ArrowRight" || event.key === "PageDown") advance(1);
+    if (event.key === "ArrowLeft" || event.key === "PageUp") advance(-1);
+  });
+
+  let touchStartX = 0;
+  let touchStartY = 0;
+  const swipeThreshold = 60;
+  addEventListener("touchstart", (event) => {
+    const touch = event.changedTouches[0];
+    touchStartX = touch.clientX;
+    touchStartY = touch.clientY;
+  });
+  addEventListener("touchend", (event) => {
+    const touch = event.changedTouches[0];
+    const deltaX = touch.clientX - touchStartX;
+    const deltaY = touch.clientY - touchStartY;
+    if (Math.abs(deltaX) > Math.abs(deltaY) && Math.abs(deltaX) > swipeThreshold) {
+      advance(deltaX < 0 ? 1 : -1);
+    }
+  });
+})();
@@ -0,0 +1,166 @@
+// Comparison tables as structured data. A YAML or JSON file lists protocols
+// and, for each, its value per attribute; a value may carry a `source` URL and
+// a `note`, which the table shows as footnote markers. Markdown files keep
+// working through the GFM table parser, citing with `[^label]` footnotes.
+//
+//   logos:
+//     SSB: { src: /hermies.png, alt: SSB logo }
+//   corner: "*"
+//   attributes: [Created, Keys]
+//   protocols:
+//     - name: SSB
+//       values:
+//         Created: 2015
+//         Keys: { value: ed25519, source: https://..., note: ... }
+//
+// Several tables go under `tables:`, each with its own `name`.
+
+import {
+  type Citation,
+  type MarkdownTable,
+  type ParsedTables,
+  parseTables,
+  type TableLogo,
+  type TableProblem,
+} from "./markdown.ts";
+import { parseYaml, YamlError, type YamlValue } from "./yaml.ts";
+
+type DataMap = { [key: string]: YamlValue };
+
+function isRecord(value: YamlValue | undefined): value is DataMap {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: YamlValue | undefined): boolean {
+  return typeof value !== "object" || value === null;
+}
+
+function text(value: YamlValue | undefined): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+function parseLogo(column: string, value: YamlValue): TableLogo | null {
+  if (typeof value === "string") return { src: value, alt: `${column} logo`, invert: false };
+  if (!isRecord(value) || typeof value.src !== "string") return null;
+  return { src: value.src, alt: text(value.alt) || `${column} logo`, invert: value.invert === true };
+}
+
+// A cell is a bare value or `{ value, source, note }`, all scalars; anything
+// else gives null.
+function parseCell(value: YamlValue | undefined): { text: string; citation: Citation | null } | null {
+  if (!isRecord(value)) return isScalar(value) ? { text: text(value), citation: null } : null;
+  if (![value.value, value.source, value.note].every(isScalar)) return null;
+  const source = text(value.source) || undefined;
+  const note = text(value.note) || undefined;
+  return { text: text(value.value), citation: source || note ? { source, note } : null };
+}
+
+function parseTable(
+  data: DataMap,
+  label: string,
+  logos: Record<string, TableLogo>,
+  problems: TableProblem[],
+): MarkdownTable | null {
+  const protocols = data.protocols;
+  if (!Array.isArray(protocols) || !protocols.length) {
+    problems.push({ message: `${label}: expected a non-empty "protocols" list` });
+    return null;
+  }
+
+  const columns: { name: string; values: DataMap }[] = [];
+  for (const [index, protocol] of protocols.entries()) {
+    if (!isRecord(protocol) || !text(protocol.name)) {
+      problems.push({ message: `${label}: protocol ${index + 1} needs a "name"` });
+      continue;
+    }
+    const name = text(protocol.name);
+    if (protocol.logo !== undefined) {
+      const logo = parseLogo(name, protocol.logo);
+      if (logo) logos[name] = logo;
+      else problems.push({ message: `${label}: ${name} has a logo without a "src"` });
+    }
+    columns.push({ name, values: isRecord(protocol.values) ? protocol.values : {} });
+  }
+
+  // Rows follow `attributes` when given, else the order attributes first appear.
+  const attributes = Array.isArray(data.attributes) ? data.attributes.map(text) : [];
+  for (const column of columns) {
+    for (const attribute of Object.keys(column.values)) {
+      if (attributes.includes(attribute)) continue;
+      if (Array.isArray(data.attributes)) {
+        problems.push({ message: `${label}: ${column.name} has "${attribute}", which is not in "attributes"` });
+      } else {
+        attributes.push(attribute);
+      }
+    }
+  }
+
+  const rows: string[][] = [];
+  const citations: (Citation | null)[][] = [];
+  for (const attribute of attributes) {
+    const cells = columns.map((column) => {
+      const cell = parseCell(column.values[attribute]);
+      if (!cell) problems.push({ message: `${label}: ${column.name}.${attribute} must be a scalar` });
+      return cell ?? { text: "", citation: null };
+    });
+    rows.push([attribute, ...cells.map((cell) => cell.text)]);
+    citations.push([null, ...cells.map((cell) => cell.citation)]);
+  }
+
+  const header = [text(data.corner), ...columns.map((column) => column.name)];
+  return {
+    name: text(data.name) || null,
+    header,
+    align: header.map(() => null),
+    rows,
+    citations,
+    line: 0,
+  };
+}
+
+/** Builds tables from parsed YAML or JSON comparison data. */
+export function comparisonTables(data: YamlValue): ParsedTables {
+  const problems: TableProblem[] = [];
+  const logos: Record<string, TableLogo> = {};
+  if (!isRecord(data)) {
+    return { tables: [], problems: [{ message: "expected a mapping at the top level" }], logos };
+  }
+
+  if (isRecord(data.logos)) {
+    for (const [column, value] of Object.entries(data.logos)) {
+      const logo = parseLogo(column, value);
+      if (logo) logos[column] = logo;
+      else problems.push({ message: `logo for ${column} needs a "src"` });
+    }
+  }
+
+  const specs = Array.isArray(data.tables) ? data.tables : [data];
+  const tables: MarkdownTable[] = [];
+  for (const [index, spec] of specs.entries()) {
+    const label = isRecord(spec) && spec.name ? `table "${text(spec.name)}"` : `table ${index + 1}`;
+    if (!isRecord(spec)) {
+      problems.push({ message: `${label}: expected a mapping` });
+      continue;
+    }
+    const table = parseTable(spec, label, logos, problems);
+    if (table) tables.push(table);
+  }
+  return { tables, problems, logos };
+}
+
+/**
+ * Parses a comparison file by its extension: `.yaml`/`.yml`, `.json`, or
+ * Markdown for anything else. Syntax errors come back as problems.
+ */
+export function parseComparison(path: string, source: string): ParsedTables {
+  if (!/\.(ya?ml|json)$/i.test(path)) return parseTables(source);
+  try {
+    const data = /\.json$/i.test(path) ? JSON.parse(source) : parseYaml(source);
+    return comparisonTables(data);
+  } catch (error) {
+    if (error instanceof YamlError) {
+      return { tables: [], problems: [{ line: error.line, message: error.reason }], logos: {} };
+    }
+    return { tables: [], problems: [{ message: (error as Error).message }], logos: {} };
+  }
+}
@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { comparisonTables, parseComparison } from "./comparison.ts";
+
+const yaml = `logos:
+  SSB: { src: /hermies.png, alt: SSB logo }
+corner: "*"
+attributes: [Created, Keys]
+protocols:
+  - name: SSB
+    values:
+      Created: 2015
+      Keys:
+        value: ed25519
+        source: https://ssbc.github.io/scuttlebutt-protocol-guide/
+        note: Scuttlebutt Protocol Guide
+  - name: Nostr
+    logo: { src: /nostr.png, invert: true }
+    values:
+      Keys: secp256k1
+`;
+
+Deno.test("builds a table with a column per protocol and a row per attribute", () => {
+  const { tables, problems, logos } = parseComparison("comparison.yaml", yaml);
+  assert.deepEqual(problems, []);
+  assert.deepEqual(tables, [{
+    name: null,
+    header: ["*", "SSB", "Nostr"],
+    align: [null, null, null],
+    rows: [["Created", "2015", ""], ["Keys", "ed25519", "secp256k1"]],
+    citations: [
+      [null, null, null],
+      [null, {
+        source: "https://ssbc.github.io/scuttlebutt-protocol-guide/",
+        note: "Scuttlebutt Protocol Guide",
+      }, null],
+    ],
+    line: 0,
+  }]);
+  assert.deepEqual(logos, {
+    SSB: { src: "/hermies.png", alt: "SSB logo", invert: false },
+    Nostr: { src: "/nostr.png", alt: "Nostr logo", invert: true },
+  });
+});
+
+Deno.test("JSON files take the same shape", () => {
+  const data = { tables: [{ name: "Keys", protocols: [{ name: "SSB", values: { Keys: "ed25519" } }] }] };
+  const { tables } = parseComparison("comparison.json", JSON.stringify(data));
+  assert.equal(tables[0].name, "Keys");
+  assert.deepEqual(tables[0].rows, [["Keys", "ed25519"]]);
+});
+
+Deno.test("rows follow first appearance without an attributes list", () => {
+  const { tables } = comparisonTables({
+    protocols: [{ name: "A", values: { Keys: "x" } }, { name: "B", values: { Created: 2020, Keys: "y" } }],
+  });
+  assert.deepEqual(tables[0].rows, [["Keys", "x", "y"], ["Created", "", "2020"]]);
+});
+
+Deno.test("reports unknown attributes, nameless protocols and bad logos", () => {
+  const { problems } = comparisonTables({
+    logos: { SSB: "/hermies.png" },
+    attributes: ["Keys"],
+    protocols: [{ values: {} }, { name: "A", logo: { alt: "A" }, values: { Created: 2015 } }],
+  });
+  assert.deepEqual(problems.map((problem) => problem.message), [
+    "table 1: protocol 1 needs a \"name\"",
+    "table 1: A has a logo without a \"src\"",
+    "table 1: A has \"Created\", which is not in \"attributes\"",
+  ]);
+  assert.deepEqual(comparisonTables([]).problems, [{ message: "expected a mapping at the top level" }]);
+});
+
+Deno.test("lists and mappings as values are reported, not stringified", () => {
+  const { tables, problems } = comparisonTables({
+    protocols: [{ name: "A", values: { Keys: { value: { a: 1 } }, Created: ["a", "b"], Apps: "x" } }],
+  });
+  assert.deepEqual(tables[0].rows, [["Keys", ""], ["Created", ""], ["Apps", "x"]]);
+  assert.deepEqual(problems.map((problem) => problem.message), [
+    "table 1: A.Keys must be a scalar",
+    "table 1: A.Created must be a scalar",
+  ]);
+});
+
+Deno.test("syntax errors come back as problems", () => {
+  assert.deepEqual(parseComparison("comparison.yaml", "a: 1\na: 2\n").problems, [
+    { line: 2, message: `duplicate key "a"` },
+  ]);
+  assert.equal(parseComparison("comparison.json", "{").problems.length, 1);
+});
+
+Deno.test("Markdown files still parse as GFM tables", () => {
+  const { tables } = parseComparison("table.md", "| * | SSB |\n| - | - |\n| Keys | ed25519 |\n");
+  assert.deepEqual(tables[0].rows, [["Keys", "ed25519"]]);
+});
+
+Deno.test("the repo's comparison files parse cleanly", async () => {
+  for (const path of ["comparison.yaml", "table.md"]) {
+    const { tables, problems } = parseComparison(path, await Deno.readTextFile(new URL(path, import.meta.url)));
+    assert.deepEqual(problems, [], path);
+    assert.ok(tables.length, path);
+  }
+});
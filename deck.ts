@@ -0,0 +1,701 @@
+import { renderAnprotoMessage } from "./anproto.ts";
+import { parseComparison } from "./comparison.ts";
+import {
+  type Citation,
+  findTable,
+  renderColumns,
+  renderInline,
+  renderMarkdown,
+  renderTable,
+  type TableStamp,
+  unknownColumns,
+} from "./markdown.ts";
+import { isErrorCorrection, renderQrSvg } from "./qr.ts";
+import { escapeHtml, isFile, readTextOr } from "./util.ts";
+import { loadVendorManifest, localizeAssets } from "./vendor.ts";
+
+export interface DeckMeta {
+  title: string;
+  slug?: string;
+  event?: string;
+  date?: string;
+  aliases: string[];
+  footer?: string;
+  duration?: number;
+  style?: string;
+  script?: string;
+}
+
+/**
+ * One build step of a slide, revealed in order by the arrow keys before the
+ * deck moves on. Steps act on the slide's comparison table.
+ */
+export interface BuildStep {
+  /** Table columns grayed out from this step on, by header name. */
+  gray: string[];
+  /** Text stamped over those columns. */
+  stamp?: string;
+  color?: string;
+  /** Stamp rotation in degrees. */
+  rotate?: number;
+}
+
+export interface Slide {
+  classes: string[];
+  kicker?: string;
+  footer?: string;
+  hidden: boolean;
+  builds: BuildStep[];
+  body: string;
+  notes: string;
+}
+
+export interface Deck {
+  meta: DeckMeta;
+  slides: Slide[];
+}
+
+// Keys recognised on the first lines of a slide, before its body starts.
+const slideKeys = new Set(["class", "kicker", "footer", "hidden", "build"]);
+
+const includePattern = /^\{\{\s*([\w-]+)\s*(?::\s*(.+?))?\s*\}\}$/;
+const rawOpenPattern = /<(pre|script|style|textarea)\b/gi;
+const rawClosePattern = /<\/(pre|script|style|textarea)>/gi;
+
+// Tracks how many verbatim elements (pre, script, ...) a line leaves open, so
+// blank lines and `---` inside them don't end a block or a slide.
+function rawDepth(line: string, depth: number): number {
+  const opens = line.match(rawOpenPattern)?.length ?? 0;
+  const closes = line.match(rawClosePattern)?.length ?? 0;
+  return Math.max(0, depth + opens - closes);
+}
+
+function endsRawBlock(line: string): boolean {
+  const trimmed = line.trim();
+  return !trimmed || trimmed.startsWith(":::") || trimmed.startsWith("{{");
+}
+
+function splitFrontmatter(source: string): { fields: Record<string, string>; body: string } {
+  const fields: Record<string, string> = {};
+  const lines = source.split(/\r?\n/);
+  if (lines[0]?.trim() !== "---") {
+    return { fields, body: source };
+  }
+
+  let end = 1;
+  for (; end < lines.length; end++) {
+    const line = lines[end].trim();
+    if (line === "---") break;
+    const match = line.match(/^([\w-]+):\s*(.*)$/);
+    if (match) fields[match[1]] = match[2].trim();
+  }
+
+  return { fields, body: lines.slice(end + 1).join("\n") };
+}
+
+function splitSlides(body: string): string[] {
+  const chunks: string[][] = [[]];
+  let depth = 0;
+  for (const line of body.split(/\r?\n/)) {
+    if (depth === 0 && line.trim() === "---") {
+      chunks.push([]);
+      continue;
+    }
+    chunks[chunks.length - 1].push(line);
+    depth = rawDepth(line, depth);
+  }
+  return chunks.map((chunk) => chunk.join("\n")).filter((chunk) => chunk.trim());
+}
+
+// `build: gray=SSB | stamp=SCUTTLED | color=#c2462b | rotate=-10` — the same
+// ` | key=value` options as includes, with `gray` taking a comma-separated
+// list of column names.
+function parseBuildStep(value: string): BuildStep {
+  const options = parseOptions(value.split(/\s+\|\s+/));
+  const color = options.get("color");
+  const rotate = Number(options.get("rotate"));
+  return {
+    gray: (options.get("gray") ?? "").split(",").map((name) => name.trim()).filter(Boolean),
+    stamp: options.get("stamp") || undefined,
+    color: color && /^(#[0-9a-f]{3,8}|[a-z]+|(rgb|hsl)a?\([\d\s.,%/]+\))$/i.test(color) ? color : undefined,
+    rotate: options.has("rotate") && Number.isFinite(rotate) ? rotate : undefined,
+  };
+}
+
+function parseSlide(source: string): Slide {
+  const lines = source.replace(/^\s*\n/, "").split("\n");
+  const slide: Slide = { classes: [], hidden: false, builds: [], body: "", notes: "" };
+
+  let i = 0;
+  for (; i < lines.length; i++) {
+    const match = lines[i].trim().match(/^([\w-]+):\s*(.*)$/);
+    if (!match || !slideKeys.has(match[1])) break;
+    const [, key, value] = match;
+    if (key === "class") {
+      slide.classes.push(...value.split(/\s+/).filter(Boolean));
+    } else if (key === "kicker") {
+      slide.kicker = value;
+    } else if (key === "footer") {
+      slide.footer = value;
+    } else if (key === "hidden") {
+      slide.hidden = value !== "false";
+    } else if (key === "build") {
+      slide.builds.push(parseBuildStep(value));
+    }
+  }
+
+  // Everything after a `???` line is speaker notes, shown only to the presenter.
+  const rest = lines.slice(i);
+  let depth = 0;
+  const notesAt = rest.findIndex((line) => {
+    const isMarker = depth === 0 && line.trim() === "???";
+    depth = rawDepth(line, depth);
+    return isMarker;
+  });
+  slide.body = (notesAt === -1 ? rest : rest.slice(0, notesAt)).join("\n");
+  slide.notes = notesAt === -1 ? "" : rest.slice(notesAt + 1).join("\n").trim();
+  return slide;
+}
+
+function metaFromFields(fields: Record<string, string>): DeckMeta {
+  return {
+    title: fields.title || "Untitled deck",
+    slug: fields.slug || undefined,
+    event: fields.event || undefined,
+    date: fields.date || undefined,
+    aliases: (fields.aliases ?? "").split(",").map((alias) => alias.trim()).filter(Boolean),
+    footer: fields.footer || undefined,
+    duration: Number(fields.duration) || undefined,
+    style: fields.style,
+    script: fields.script,
+  };
+}
+
+/** Reads only the frontmatter of a deck source, skipping slide parsing. */
+export function parseDeckMeta(source: string): DeckMeta {
+  return metaFromFields(splitFrontmatter(source).fields);
+}
+
+/**
+ * Parses a deck source: an optional `---` frontmatter block with deck fields,
+ * followed by slides separated by `---` lines.
+ */
+export function parseDeck(source: string): Deck {
+  const { fields, body } = splitFrontmatter(source);
+  return {
+    meta: metaFromFields(fields),
+    slides: splitSlides(body).map(parseSlide),
+  };
+}
+
+// A slide that opens with `{{slide: name | key=value}}` comes from
+// `slides/name.md`, which holds one slide in the deck format. Its frontmatter
+// gives parameter defaults, the include's options override them, and every
+// `{{$key}}` in the file is replaced by the value. Lines below the include
+// fill `{{$content}}`. Keys and notes on the including slide win over the
+// library slide's, except classes, which are added to its own.
+async function expandLibrarySlide(slide: Slide, slug: string): Promise<Slide> {
+  const [first, ...content] = slide.body.trim().split("\n");
+  const include = first?.trim().match(includePattern);
+  if (include?.[1] !== "slide" || !include[2]) return slide;
+  const { target: name, options } = parseIncludeTarget(include[2]);
+  const source = /^[\w-]+$/.test(name) ? await readTextOr(`${Deno.cwd()}/slides/${name}.md`, "") : "";
+  if (!source) {
+    console.warn(`${slug}: no library slide "${name}" in slides/`);
+    return slide;
+  }
+
+  const { fields, body } = splitFrontmatter(source);
+  const params: Record<string, string> = { ...fields, ...Object.fromEntries(options) };
+  if (content.join("\n").trim()) params.content = content.join("\n").trim();
+  const missing = new Set<string>();
+  const filled = body.replace(/\{\{\$([\w-]+)\}\}/g, (_, key: string) => {
+    if (Object.hasOwn(params, key)) return params[key];
+    missing.add(key);
+    return "";
+  });
+  for (const key of missing) console.warn(`${slug}: library slide "${name}" has no value for {{$${key}}}`);
+
+  const base = parseSlide(filled);
+  return {
+    classes: [...base.classes, ...slide.classes],
+    kicker: slide.kicker ?? base.kicker,
+    footer: slide.footer ?? base.footer,
+    hidden: slide.hidden || base.hidden,
+    builds: slide.builds.length ? slide.builds : base.builds,
+    body: base.body,
+    notes: slide.notes || base.notes,
+  };
+}
+
+/**
+ * Loads a deck file, defaulting its slug to the file name, and fills in its
+ * library slides. A deck whose tables cite sources gets a references slide at
+ * the end, unless it places `{{references}}` itself.
+ */
+export async function loadDeck(path: string): Promise<Deck> {
+  const deck = parseDeck(await Deno.readTextFile(path));
+  const slug = deck.meta.slug ??= path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, "");
+  deck.slides = await Promise.all(deck.slides.map((slide) => expandLibrarySlide(slide, slug)));
+  if (await citesSources(deck)) {
+    deck.slides.push({
+      classes: ["references-slide"],
+      kicker: "References",
+      hidden: false,
+      builds: [],
+      body: "{{references}}",
+      notes: "",
+    });
+  }
+  return deck;
+}
+
+async function citesSources(deck: Deck): Promise<boolean> {
+  const includes = visibleSlides(deck).flatMap((slide) =>
+    slide.body.split("\n").map((line) => line.trim().match(includePattern)).filter((match) => match !== null)
+  );
+  if (includes.some((match) => match[1] === "references")) return false;
+  for (const match of includes) {
+    if (match[1] !== "table" || !match[2]) continue;
+    const { target, options } = parseIncludeTarget(match[2]);
+    const { tables } = parseComparison(target, await readTextOr(`${Deno.cwd()}/${target}`, ""));
+    const table = findTable(tables, options.get("name"));
+    if (table?.citations?.some((row) => row.some(Boolean))) return true;
+  }
+  return false;
+}
+
+/** The slides the audience sees, in order; hidden slides are left out. */
+export function visibleSlides(deck: Deck): Slide[] {
+  return deck.slides.filter((slide) => !slide.hidden);
+}
+
+/** A short label for a slide: its first heading, else its kicker. */
+export function slideTitle(slide: Slide, index: number): string {
+  const heading = slide.body.match(/^\s*#{1,6}\s+(.+)$/m)?.[1] ??
+    slide.body.match(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/)?.[1]?.replace(/<[^>]+>/g, "");
+  return (heading ?? slide.kicker ?? `Slide ${index + 1}`).replace(/\*\*/g, "").trim();
+}
+
+// Include targets may carry options after ` | `, either `key=value` or a bare
+// flag: `{{qr: https://example.com/ | size=180 | link}}`.
+function parseOptions(parts: string[]): Map<string, string> {
+  const options = new Map<string, string>();
+  for (const part of parts) {
+    const eq = part.indexOf("=");
+    if (eq === -1) options.set(part.trim(), "");
+    else options.set(part.slice(0, eq).trim(), part.slice(eq + 1).trim());
+  }
+  return options;
+}
+
+function parseIncludeTarget(raw: string): { target: string; options: Map<string, string> } {
+  const [target, ...parts] = raw.split(/\s+\|\s+/);
+  return { target: target.trim(), options: parseOptions(parts) };
+}
+
+function renderQrInclude(data: string, options: Map<string, string>): string {
+  const ecc = options.get("ecc")?.toUpperCase() ?? "M";
+  const size = Number(options.get("size"));
+  const margin = Number(options.get("margin"));
+  const label = options.get("label") ?? `QR code for ${data}`;
+  let svg: string;
+  try {
+    svg = renderQrSvg(data, {
+      ecc: isErrorCorrection(ecc) ? ecc : "M",
+      size: size > 0 ? size : undefined,
+      margin: margin >= 0 ? margin : undefined,
+      className: "qr-code",
+      label,
+    });
+  } catch (error) {
+    return `<pre>${escapeHtml(`QR code failed: ${(error as Error).message}`)}</pre>`;
+  }
+  if (!options.has("link")) return svg;
+  return `<a href="${escapeHtml(data)}" aria-label="${escapeHtml(label)}">${svg}</a>`;
+}
+
+// An iframe plus the local fallback the runtime swaps in when the embed can't
+// load: a screenshot if one is declared and present, a link and a QR code.
+async function renderEmbedInclude(src: string, options: Map<string, string>): Promise<string> {
+  const title = options.get("title") ?? src;
+  const screenshot = options.get("fallback");
+  const image = screenshot && await isFile(`${Deno.cwd()}/${screenshot}`)
+    ? `<img class="embed-screenshot" src="/${escapeHtml(screenshot)}" alt="${escapeHtml(`Screenshot of ${title}`)}" />\n`
+    : "";
+  return `<div class="embed" data-embed="${escapeHtml(src)}">
+<iframe class="embed-frame" src="${escapeHtml(src)}" title="${escapeHtml(title)}" loading="lazy"></iframe>
+<div class="embed-frame embed-fallback">
+${image}<div class="embed-fallback-info">
+<p class="embed-fallback-title">${escapeHtml(title)}</p>
+<a href="${escapeHtml(src)}">${escapeHtml(src)}</a>
+${renderQrInclude(src, new Map([["size", "160"], ["label", `QR code for ${title}`]]))}
+</div>
+</div>
+</div>`;
+}
+
+// Build step N (counting from 1) becomes a stamp applied at step N.
+function buildStamps(builds: BuildStep[]): TableStamp[] {
+  return builds.map((build, index) => ({
+    columns: build.gray,
+    text: build.stamp,
+    color: build.color,
+    rotate: build.rotate,
+    step: index + 1,
+  }));
+}
+
+/**
+ * Numbers the sources cited by a deck's tables in order of first use. Cells
+ * citing the same source and note share a number.
+ */
+class References {
+  readonly citations: Citation[] = [];
+  private readonly numbers = new Map<string, number>();
+
+  cite(citation: Citation): number {
+    const key = JSON.stringify([citation.source ?? "", citation.note ?? ""]);
+    let number = this.numbers.get(key);
+    if (number === undefined) {
+      this.citations.push(citation);
+      number = this.citations.length;
+      this.numbers.set(key, number);
+    }
+    return number;
+  }
+}
+
+interface RenderContext {
+  builds: BuildStep[];
+  references: References;
+}
+
+function renderReferences(references: References): string {
+  if (!references.citations.length) return `<p class="references-empty">No sources cited.</p>`;
+  const items = references.citations.map((citation) => {
+    const note = citation.note ? renderInline(citation.note) : "";
+    const source = escapeHtml(citation.source ?? "");
+    const link = /^https?:\/\//i.test(source)
+      ? `<a class="reference-source" href="${source}">${source}</a>`
+      : source && `<span class="reference-source">${source}</span>`;
+    return `<li>${[note, link].filter(Boolean).join(" ")}</li>`;
+  });
+  return `<ol class="references">\n${items.join("\n")}\n</ol>`;
+}
+
+// `{{table: file}}` renders a comparison table from Markdown, YAML or JSON
+// (`| name=...` picks one of several, `| interactive` lets the audience sort,
+// hide and highlight it, and the slide's build steps gray its columns and
+// stamp it); `{{references}}` lists the sources its cells cited.
+// `{{columns: file.md}}` lays a file's `###` sections out side by side
+// (`{{risks: ...}}` is the same include; `| columns=N` sets the count),
+// `{{anproto: file}}` decodes and verifies an example ANProto message and
+// `{{playground}}` frames the local signing playground,
+// `{{qr: text}}` draws a QR code inline and `{{embed: url}}` an iframe with a
+// fallback.
+async function renderInclude(kind: string, rawTarget: string, context: RenderContext): Promise<string> {
+  const { target, options } = parseIncludeTarget(rawTarget);
+  const path = `${Deno.cwd()}/${target}`;
+  switch (kind) {
+    case "table": {
+      const tableMd = await readTextOr(
+        path,
+        "| Column A | Column B |\n| --- | --- |\n| Example 1 | Example 2 |\n",
+      );
+      const { tables, problems, logos } = parseComparison(target, tableMd);
+      for (const problem of problems) {
+        console.warn(`${target}${problem.line ? `:${problem.line}` : ""}: ${problem.message}`);
+      }
+      const table = findTable(tables, options.get("name"));
+      if (table) {
+        const stamps = buildStamps(context.builds);
+        for (const stamp of stamps) {
+          for (const column of unknownColumns(table, stamp.columns)) {
+            console.warn(`${target}: build step ${stamp.step} names a column "${column}" the table doesn't have`);
+          }
+        }
+        const html = renderTable(table, logos, stamps, (citation) => context.references.cite(citation));
+        if (!options.has("interactive") || options.get("interactive") === "no") return html;
+        // The client keys a named table's view in the URL by its name.
+        const key = table.name ? ` data-table="${escapeHtml(table.name.toLowerCase().replace(/\s+/g, "-"))}"` : "";
+        return `<div class="table-interactive"${key}>${html}</div>`;
+      }
+      if (!options.has("name")) return `<pre>${escapeHtml(tableMd)}</pre>`;
+      const names = tables.map((table) => table.name).filter(Boolean).join(", ") || "none";
+      return `<pre>${escapeHtml(`No table named "${options.get("name")}" in ${target} (tables: ${names})`)}</pre>`;
+    }
+    case "references":
+      return renderReferences(context.references);
+    case "columns":
+    case "risks": {
+      const markdown = await readTextOr(path, "# Risks\n\nNo risks provided yet.\n");
+      const columns = Number(options.get("columns"));
+      if (options.has("columns") && !(Number.isInteger(columns) && columns > 0)) {
+        console.warn(`${target}: columns=${options.get("columns")} is not a positive whole number`);
+      }
+      return renderColumns(markdown, Number.isInteger(columns) && columns > 0 ? { columns } : {});
+    }
+    case "anproto":
+      return await renderAnprotoMessage(await readTextOr(path, ""));
+    case "playground":
+      // Served by this server and fully offline, so no fallback is needed.
+      return `<iframe class="embed-frame playground-frame" src="/playground" title="${
+        escapeHtml(options.get("title") ?? "ANProto playground")
+      }" loading="lazy"></iframe>`;
+    case "qr":
+      return renderQrInclude(target, options);
+    case "embed":
+      return await renderEmbedInclude(target, options);
+    case "slide":
+      return `<pre>${escapeHtml(`No library slide "${target}": it must open its slide and live in slides/${target}.md`)}</pre>`;
+    default:
+      return `<pre>${escapeHtml(`Unknown include: ${kind}`)}</pre>`;
+  }
+}
+
+/**
+ * Renders a slide body. Lines starting with `<` are passed through as raw HTML
+ * until the next blank line, `::: classes` / `:::` open and close divs,
+ * `{{kind: file}}` lines are includes, and everything in between is
+ * CommonMark, rendered with raw HTML allowed since decks are trusted.
+ */
+async function renderBody(
+  body: string,
+  context: RenderContext = { builds: [], references: new References() },
+): Promise<string> {
+  const lines = body.split("\n");
+  let html = "";
+  let markdown: string[] = [];
+
+  const flush = () => {
+    if (markdown.some((line) => line.trim())) {
+      html += renderMarkdown(markdown.join("\n"), { allowHtml: true });
+    }
+    markdown = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith("<")) {
+      flush();
+      const start = i;
+      let depth = 0;
+      for (; i < lines.length; i++) {
+        if (depth === 0 && i > start && endsRawBlock(lines[i])) break;
+        html += `${lines[i]}\n`;
+        depth = rawDepth(lines[i], depth);
+      }
+      i--;
+      continue;
+    }
+
+    const fenceMatch = trimmed.match(/^:::\s*(.*)$/);
+    if (fenceMatch) {
+      flush();
+      html += fenceMatch[1] ? `<div class="${escapeHtml(fenceMatch[1])}">\n` : "</div>\n";
+      continue;
+    }
+
+    const includeMatch = trimmed.match(includePattern);
+    if (includeMatch) {
+      flush();
+      html += `${await renderInclude(includeMatch[1], includeMatch[2] ?? "", context)}\n`;
+      continue;
+    }
+
+    if (!trimmed) flush();
+    markdown.push(line);
+  }
+
+  flush();
+  return html;
+}
+
+// Footers are numbered at render time. A slide's own `footer:` text replaces
+// the deck-wide one, and `footer: none` drops the footer from that slide.
+function renderFooter(slide: Slide, index: number, total: number, deckFooter?: string): string {
+  if (slide.footer === "none") return "";
+  const text = slide.footer ?? deckFooter;
+  const count = `Slide ${index + 1} / ${total}`;
+  return `<div class="footer">${text ? `${escapeHtml(text)} · ${count}` : count}</div>\n`;
+}
+
+async function renderSlide(
+  slide: Slide,
+  index: number,
+  total: number,
+  meta: DeckMeta,
+  references: References,
+): Promise<string> {
+  const classes = ["slide", ...(index === 0 ? ["active"] : []), ...slide.classes];
+  const kicker = slide.kicker ? `<span class="kicker">${escapeHtml(slide.kicker)}</span>\n` : "";
+  const footer = renderFooter(slide, index, total, meta.footer);
+  const builds = slide.builds.length ? ` data-builds="${slide.builds.length}"` : "";
+  return `<section class="${classes.join(" ")}"${builds}>
+${kicker}${await renderBody(slide.body, { builds: slide.builds, references })}${footer}</section>`;
+}
+
+// Bump whenever client/runtime.js changes: the runtime is served with an
+// immutable cache header, so a new version needs a new URL.
+export const runtimeVersion = "10";
+export const runtimePath = `/runtime/${runtimeVersion}/deck.js`;
+
+const columnsStyle = `.columns-grid {
+  display: grid;
+  grid-template-columns: repeat(var(--columns, 2), minmax(0, 1fr));
+  gap: 28px;
+}
+.columns-grid h3 { margin-top: 0; display: flex; align-items: center; gap: 0.4em; }
+.column-icon { flex: none; font-size: 1.2em; line-height: 1; }
+img.column-icon { width: 1.4em; height: 1.4em; object-fit: contain; }
+@media (max-width: 900px) {
+  .columns-grid { grid-template-columns: repeat(var(--columns-narrow, 1), minmax(0, 1fr)); }
+}
+@media (max-width: 560px) {
+  .columns-grid { grid-template-columns: minmax(0, 1fr); }
+}`;
+
+const anprotoStyle = `.anproto-fields {
+  display: grid;
+  grid-template-columns: auto minmax(0, 1fr);
+  gap: 2px 10px;
+  margin: 0 0 8px;
+  font-size: 0.75rem;
+}
+.anproto-fields dt { opacity: 0.7; }
+.anproto-fields dd { margin: 0; font-family: monospace; overflow-wrap: anywhere; }
+.anproto-badge { display: inline-block; margin: 0; padding: 2px 10px; border-radius: 999px; font-size: 0.75rem; font-weight: 600; }
+.anproto-valid { color: #1f7a3d; background: rgba(31, 122, 61, 0.14); }
+.anproto-invalid { color: #b3261e; background: rgba(179, 38, 30, 0.14); }`;
+
+// Embeds show their iframe until the runtime marks them `offline`.
+const embedStyle = `.embed > .embed-fallback { display: none; }
+.embed.offline > iframe { display: none; }
+.embed.offline > .embed-fallback {
+  display: flex;
+  align-items: center;
+  gap: 24px;
+  padding: 24px;
+  box-sizing: border-box;
+  overflow: hidden;
+}
+.embed-screenshot { flex: 1 1 60%; min-width: 0; max-height: 100%; object-fit: contain; border-radius: 12px; }
+.embed-fallback-info { flex: 1 1 40%; display: flex; flex-direction: column; gap: 12px; min-width: 0; }
+.embed-fallback-info a { overflow-wrap: anywhere; }
+.embed-fallback-title { margin: 0; font-weight: 600; font-size: 1.3rem; }
+.embed-fallback .qr-code { width: 160px; height: 160px; border-radius: 8px; }`;
+
+// Shared by every deck's comparison tables; sizes and colours come from the
+// deck's own `.table-logo` rule.
+const tableStyle = `.table-logo.logo-invert { filter: invert(1); }
+[data-build]:not([data-build-class]):not(.built) { visibility: hidden; }
+th.stamp-anchor { position: relative; }
+th > .stamp {
+  top: 22px;
+  left: 50%;
+  transform: translateX(-50%) rotate(var(--stamp-rotate, -8deg));
+}
+th > .stamp.stamp-between { left: 100%; }
+.table-interactive td { cursor: pointer; }
+.table-interactive th[draggable="true"] { cursor: grab; }
+.table-interactive th.dragging { opacity: 0.4; }
+.table-interactive tr.row-selected > td:first-child { text-decoration: underline; }
+.table-interactive td[data-group] { box-shadow: inset 0 -4px 0 hsl(var(--group-hue) 85% 62%); }
+.table-interactive .column-match { background: rgba(255, 255, 255, 0.12); }
+.table-interactive .column-dim { opacity: 0.3; }
+.table-interactive .table-rearranged .stamp { display: none; }
+.table-hide,
+.table-sort,
+.table-tools button {
+  font: inherit;
+  color: inherit;
+  background: none;
+  border: 1px solid currentColor;
+  border-radius: 999px;
+  opacity: 0.6;
+  cursor: pointer;
+}
+.table-hide { margin-left: 0.3em; padding: 0 0.35em; font-size: 0.7em; line-height: 1.2; }
+.table-sort { margin-left: 0.4em; padding: 0 0.4em; font-size: 0.75em; }
+.table-tools { display: flex; flex-wrap: wrap; gap: 0.4em; margin-top: 0.6em; font-size: 0.7em; }
+.table-tools button { padding: 0.15em 0.7em; }
+.table-cite { margin-left: 0.15em; font-size: 0.6em; opacity: 0.75; }
+.references { text-align: left; font-size: 0.8em; line-height: 1.5; }
+.references .reference-source { display: block; font-size: 0.85em; opacity: 0.8; overflow-wrap: anywhere; }
+.table-badge {
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  box-sizing: border-box;
+  font-size: 0.7rem;
+  font-weight: 700;
+  letter-spacing: 0.02em;
+}`;
+
+export interface RenderOptions {
+  /** Output for static hosting: no server, so no live session to follow. */
+  static?: boolean;
+}
+
+/**
+ * Renders a parsed deck to a complete HTML page. `dir` is the directory the
+ * deck's `style` and `script` files are resolved against.
+ */
+export async function renderDeck(deck: Deck, dir: string, options: RenderOptions = {}): Promise<string> {
+  const vendored = await loadVendorManifest(Deno.cwd());
+  const style = deck.meta.style ? await readTextOr(`${dir}/${deck.meta.style}`, "") : "";
+  const script = deck.meta.script ? await readTextOr(`${dir}/${deck.meta.script}`, "") : "";
+
+  // Hidden slides stay in the source but are skipped entirely, so numbering
+  // and `#/N` links only ever count the slides the audience sees.
+  const visible = visibleSlides(deck);
+  const references = new References();
+  const slides: string[] = [];
+  for (const [index, slide] of visible.entries()) {
+    if (/<iframe\b/.test(slide.body)) {
+      console.warn(`${deck.meta.slug}: slide ${index + 1} has a raw <iframe>; use {{embed: url}} so it gets a fallback`);
+    }
+    slides.push(await renderSlide(slide, index, visible.length, deck.meta, references));
+  }
+
+  return localizeAssets(`<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(deck.meta.title)}</title>
+  <style>
+${embedStyle}
+${tableStyle}
+${columnsStyle}
+${anprotoStyle}
+${style}
+  </style>
+</head>
+<body data-deck="${escapeHtml(deck.meta.slug ?? "")}"${options.static ? " data-static" : ""}>
+  <main>
+${slides.join("\n\n")}
+  </main>
+
+  <div class="nav" aria-label="Slide navigation"></div>
+
+  <script src="${runtimePath}"></script>
+  <script>
+${script}
+  </script>
+</body>
+</html>`, vendored);
+}
+
+/** Renders a slide's speaker notes with the same Markdown rules as slides. */
+export function renderNotes(slide: Slide): Promise<string> {
+  return renderBody(slide.notes);
+}
+
+export async function renderDeckFile(path: string, options: RenderOptions = {}): Promise<string> {
+  const dir = path.slice(0, path.lastIndexOf("/"));
+  return renderDeck(await loadDeck(path), dir, options);
+}
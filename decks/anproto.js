@@ -0,0 +1,29 @@
+// Random neon flicker on the final slide logo.
+(function startLogoFlicker() {
+  const el = document.querySelector('.logo-flicker-b');
+  // Printed handouts keep the logo steady.
+  if (!el || (globalThis.deck && globalThis.deck.print)) return;
+
+  // Weighted random opacity: mostly on, sometimes dim/off.
+  const pickOpacity = () => {
+    const r = Math.random();
+    if (r < 0.72) return 1;
+    if (r < 0.84) return 0.75;
+    if (r < 0.92) return 0.35;
+    if (r < 0.975) return 0.12;
+    return 0;
+  };
+
+  const loop = () => {
+    // Mostly calm, with occasional rapid bursts.
+    const burst = Math.random() < 0.18;
+    const delay = burst
+      ? (25 + Math.random() * 120)
+      : (120 + Math.random() * 900);
+
+    el.style.opacity = String(pickOpacity());
+    setTimeout(loop, delay);
+  };
+
+  loop();
+})();
@@ -0,0 +1,20 @@
+(function startBirdFlicker() {
+  const el = document.querySelector(".bird .b");
+  if (!el || (globalThis.deck && globalThis.deck.print)) return;
+  const pickOpacity = () => {
+    const r = Math.random();
+    if (r < 0.68) return 1;
+    if (r < 0.82) return 0.7;
+    if (r < 0.92) return 0.28;
+    if (r < 0.975) return 0.08;
+    return 0;
+  };
+  const loop = () => {
+    const burst = Math.random() < 0.2;
+    const delay = burst ? 25 + Math.random() * 120 : 120 + Math.random() * 820;
+    el.style.opacity = String(pickOpacity());
+    el.style.transform = "translate(" + ((Math.random() - 0.5) * 2) + "px, " + ((Math.random() - 0.5) * 2) + "px)";
+    setTimeout(loop, delay);
+  };
+  loop();
+})();
@@ -0,0 +1,80 @@
+// Dev mode: watches the repo with Deno.watchFs and tells open pages over
+// server-sent events when deck sources or assets change. Each server process
+// has its own boot id, so pages also notice when `deno run --watch` restarts
+// the server after server.ts or another module changes.
+
+const encoder = new TextEncoder();
+const bootId = crypto.randomUUID();
+const clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+
+const watched = /\.(md|css|js|ts|json|ya?ml|png|jpe?g|gif|webp|svg)$/i;
+const ignored = /\/(\.git|dist|node_modules|snapshots)\//;
+
+function send(controller: ReadableStreamDefaultController<Uint8Array>, event: string, data: unknown): boolean {
+  try {
+    controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function broadcast(event: string, data: unknown): void {
+  for (const controller of clients) {
+    if (!send(controller, event, data)) clients.delete(controller);
+  }
+}
+
+/**
+ * Watches `root` and sends a `reload` event listing the changed paths,
+ * relative to `root`. Bursts of changes (editors often write a file twice)
+ * are batched into one event.
+ */
+export async function watchForChanges(root: string): Promise<void> {
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  // Keeps idle connections from being dropped by proxies.
+  setInterval(() => broadcast("ping", Date.now()), 30000);
+
+  for await (const event of Deno.watchFs(root, { recursive: true })) {
+    for (const path of event.paths) {
+      if (!watched.test(path) || ignored.test(path)) continue;
+      changed.add(path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path);
+    }
+    if (!changed.size) continue;
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const paths = [...changed];
+      changed.clear();
+      console.log(`changed: ${paths.join(", ")}`);
+      broadcast("reload", { paths });
+    }, 120);
+  }
+}
+
+/** The `/dev/events` stream. Opens with a `hello` carrying the boot id. */
+export function handleDevEvents(): Response {
+  let self: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      self = controller;
+      clients.add(controller);
+      send(controller, "hello", { bootId });
+    },
+    cancel() {
+      clients.delete(self);
+    },
+  });
+  return new Response(body, {
+    headers: {
+      "content-type": "text/event-stream",
+      "cache-control": "no-store",
+    },
+  });
+}
+
+/** Adds the dev client to a page served in dev mode. */
+export function withDevClient(html: string): string {
+  return html.replace(/<\/body>/i, `  <script src="/client/dev.js"></script>\n</body>`);
+}
@@ -0,0 +1,428 @@
+// Static export: `deno run -A export.ts` renders every deck into dist/ as plain
+// files that work from any static host, from a subdirectory, or straight off a
+// USB stick over file://. Only the assets the pages reference are copied, and
+// every root-absolute path is rewritten to a relative one.
+//
+// `--single` instead writes each deck as one self-contained HTML file with
+// every asset inlined as a data URI, for sending as an attachment.
+import { renderDeckFile, runtimePath } from "./deck.ts";
+import { downscalePng } from "./image.ts";
+import { contentType } from "./mime.ts";
+import { renderPlayground } from "./playground.ts";
+import { type DeckEntry, findDeck, loadRegistry, renderDeckIndex } from "./registry.ts";
+import { escapeHtml, flag, isFile, toBase64 } from "./util.ts";
+
+export interface ExportReport {
+  pages: string[];
+  assets: string[];
+  missing: string[];
+}
+
+export interface SingleFileReport {
+  page: string;
+  bytes: number;
+  downscaled: string[];
+  dropped: string[];
+  missing: string[];
+}
+
+// Root-absolute references in `src`/`href`/`poster` attributes and CSS `url()`s.
+const absolutePath = /(\b(?:src|href|poster)=["']|url\(\s*["']?)\/(?!\/)([^"')\s]*)/g;
+
+// Relative `url()`s inside a stylesheet, such as a vendored font's files.
+const relativeUrl = /url\(\s*["']?(?!data:|[a-z]+:|\/|#)([^"')\s?#]+)/gi;
+
+function dirname(path: string): string {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+}
+
+// Collapses `a/./b/../c` and refuses paths that climb out of the repo.
+function normalize(path: string): string | null {
+  const parts: string[] = [];
+  for (const part of path.split("/")) {
+    if (!part || part === ".") continue;
+    if (part === "..") {
+      if (!parts.length) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+}
+
+// `a.png?v=2#top` -> `a.png` plus the `#top` worth keeping on a file. Links
+// to pages keep their query too (`?print`).
+function splitPath(path: string): { bare: string; suffix: string } {
+  const cut = path.search(/[?#]/);
+  if (cut === -1) return { bare: path, suffix: "" };
+  return { bare: path.slice(0, cut), suffix: path.slice(cut).replace(/^\?[^#]*/, "") };
+}
+
+class Exporter {
+  readonly report: ExportReport = { pages: [], assets: [], missing: [] };
+  private readonly copied = new Set<string>();
+
+  constructor(
+    readonly root: string,
+    readonly outDir: string,
+    readonly resolvePage: (path: string) => string | undefined,
+  ) {}
+
+  async write(name: string, html: string): Promise<void> {
+    await Deno.writeTextFile(`${this.outDir}/${name}`, await this.rewrite(html, ""));
+    this.report.pages.push(name);
+  }
+
+  // Rewrites `src`/`href`/`poster` attributes and CSS `url()`s that start with
+  // a single `/`. Pages are written at the top of dist/, so the relative path
+  // is the absolute one without its leading slash.
+  async rewrite(text: string, fromDir: string): Promise<string> {
+    const targets = new Map<string, string>();
+    for (const match of text.matchAll(absolutePath)) {
+      if (!targets.has(match[2])) targets.set(match[2], await this.target(match[2]));
+    }
+    const prefix = fromDir ? "../".repeat(fromDir.split("/").length) : "";
+    return text.replace(absolutePath, (_, lead: string, path: string) => `${lead}${prefix}${targets.get(path)}`);
+  }
+
+  private async target(path: string): Promise<string> {
+    const { bare, suffix } = splitPath(path);
+    const page = this.resolvePage(bare);
+    if (page) return page + path.slice(bare.length);
+
+    if (`/${bare}` === runtimePath) {
+      await this.copy("client/runtime.js", bare);
+      return bare + suffix;
+    }
+
+    const file = normalize(decodeURIComponent(bare));
+    if (file && await isFile(`${this.root}/${file}`)) {
+      await this.copy(file, file);
+      return encodeURI(file) + suffix;
+    }
+
+    if (!this.report.missing.includes(`/${path}`)) this.report.missing.push(`/${path}`);
+    return path;
+  }
+
+  private async copy(source: string, dest: string): Promise<void> {
+    if (this.copied.has(dest)) return;
+    this.copied.add(dest);
+    const to = `${this.outDir}/${dest}`;
+    await Deno.mkdir(dirname(to), { recursive: true });
+    await Deno.copyFile(`${this.root}/${source}`, to);
+    this.report.assets.push(dest);
+
+    // Stylesheets (vendored fonts) pull in files of their own.
+    if (dest.endsWith(".css")) {
+      const css = await Deno.readTextFile(to);
+      for (const match of css.matchAll(relativeUrl)) {
+        const relative = normalize(`${dirname(source)}/${match[1]}`);
+        if (relative && await isFile(`${this.root}/${relative}`)) {
+          await this.copy(relative, normalize(`${dirname(dest)}/${match[1]}`) ?? relative);
+        }
+      }
+      await Deno.writeTextFile(to, await this.rewrite(css, dirname(dest)));
+    }
+  }
+}
+
+// Every export lists the files it wrote here, so the next one into the same
+// directory removes exactly those and never anything else that lives there.
+const exportManifest = ".export-files.json";
+
+// Clears what a previous export wrote to `outDir`. A directory holding
+// anything else without a manifest is refused rather than emptied, so
+// `--out=.` can't take the repo with it; only other exports (`dist/single`
+// inside `dist`) may already be there.
+async function prepareOutDir(outDir: string): Promise<void> {
+  let previous: string[] | undefined;
+  try {
+    previous = JSON.parse(await Deno.readTextFile(`${outDir}/${exportManifest}`));
+  } catch {
+    previous = undefined;
+  }
+
+  if (!previous) {
+    const entries = await Array.fromAsync(Deno.readDir(outDir)).catch((error) => {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    });
+    for (const entry of entries) {
+      if (!entry.isDirectory || !await isFile(`${outDir}/${entry.name}/${exportManifest}`)) {
+        throw new Error(`${outDir} already has files export.ts didn't write; empty it or pick another --out`);
+      }
+    }
+    await Deno.mkdir(outDir, { recursive: true });
+    return;
+  }
+
+  const dirs = new Set<string>();
+  for (const file of previous) {
+    const path = normalize(file);
+    if (!path) continue;
+    await Deno.remove(`${outDir}/${path}`).catch(() => {});
+    for (let dir = dirname(path); dir; dir = dirname(dir)) dirs.add(dir);
+  }
+  // Deepest first; directories that still hold something else stay.
+  for (const dir of [...dirs].sort((a, b) => b.length - a.length)) {
+    await Deno.remove(`${outDir}/${dir}`).catch(() => {});
+  }
+  await Deno.remove(`${outDir}/${exportManifest}`);
+}
+
+async function writeExportManifest(outDir: string, files: string[]): Promise<void> {
+  await Deno.writeTextFile(`${outDir}/${exportManifest}`, `${JSON.stringify(files, null, 2)}\n`);
+}
+
+// Server routes become page files: `/` and `/index.html`, `/decks`,
+// `/playground`, and `/deck/<name>` or `/<name>` for any deck slug or alias.
+function pageResolver(entries: DeckEntry[]): (path: string) => string | undefined {
+  return (path) => {
+    const trimmed = path.replace(/\/$/, "");
+    if (trimmed === "" || trimmed === "index.html") return "index.html";
+    if (trimmed === "decks") return "decks.html";
+    if (trimmed === "playground") return "playground.html";
+    const name = trimmed.match(/^(?:deck\/)?([\w-]+)$/)?.[1];
+    const entry = name ? findDeck(entries, name) : undefined;
+    return entry ? `${entry.slug}.html` : undefined;
+  };
+}
+
+/**
+ * Writes every deck to `outDir` as `<slug>.html`, the default deck again as
+ * `index.html`, the deck list as `decks.html` and the ANProto playground as
+ * `playground.html`, plus the files they use.
+ */
+export async function exportDecks(root: string, outDir: string, defaultDeck: string): Promise<ExportReport> {
+  const entries = await loadRegistry(`${root}/decks`);
+  const fallback = findDeck(entries, defaultDeck) ?? entries[0];
+
+  await prepareOutDir(outDir);
+  const exporter = new Exporter(root, outDir, pageResolver(entries));
+
+  for (const entry of entries) {
+    const html = await renderDeckFile(entry.path, { static: true });
+    await exporter.write(`${entry.slug}.html`, html);
+    if (entry === fallback) await exporter.write("index.html", html);
+  }
+  await exporter.write("decks.html", renderDeckIndex(entries, fallback?.slug ?? defaultDeck));
+  await exporter.write("playground.html", await renderInlinedPlayground(root));
+  await writeExportManifest(outDir, [...exporter.report.pages, ...exporter.report.assets]);
+  return exporter.report;
+}
+
+interface InlineAsset {
+  path: string;
+  type: string;
+  bytes: Uint8Array;
+  /** How many times the page references it; each one is a separate copy. */
+  uses: number;
+  /** Halvings applied so far, for PNGs shrunk to fit the budget. */
+  steps: number;
+  width?: number;
+  dropped: boolean;
+}
+
+// Stand-ins for dropped assets: a transparent pixel keeps `<img>` layouts
+// intact, and an empty stylesheet just falls back to the next font.
+const droppedImage = "data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+const droppedOther = "data:,";
+
+// Images are never shrunk below this width; past it they are dropped instead.
+const minWidth = 320;
+
+function dataUri(asset: InlineAsset): string {
+  if (asset.dropped) return asset.type.startsWith("image/") ? droppedImage : droppedOther;
+  return `data:${asset.type.split(";")[0]};base64,${toBase64(asset.bytes)}`;
+}
+
+function encodedSize(asset: InlineAsset): number {
+  return asset.dropped ? 0 : Math.ceil(asset.bytes.length / 3) * 4 * asset.uses;
+}
+
+/** Parses sizes like `8MB`, `500KB` or a plain byte count. */
+export function parseSize(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i);
+  if (!match) return undefined;
+  const scale = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 }[(match[2] ?? "b").toLowerCase() as "b"];
+  return Math.round(Number(match[1]) * scale);
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${bytes} B`;
+}
+
+// Reads an asset for inlining. Stylesheets get their own relative `url()`s
+// inlined first, so a vendored font CSS arrives with its fonts inside.
+async function loadAsset(root: string, path: string): Promise<InlineAsset> {
+  const type = contentType(path);
+  let bytes = await Deno.readFile(`${root}/${path}`);
+  if (path.endsWith(".css")) {
+    let css = new TextDecoder().decode(bytes);
+    for (const match of new Set([...css.matchAll(relativeUrl)].map((m) => m[1]))) {
+      const relative = normalize(`${dirname(path)}/${match}`);
+      if (relative && await isFile(`${root}/${relative}`)) {
+        css = css.replaceAll(match, dataUri(await loadAsset(root, relative)));
+      }
+    }
+    bytes = new TextEncoder().encode(css);
+  }
+  return { path, type, bytes, uses: 0, steps: 0, dropped: false };
+}
+
+// Until the page fits, the asset taking the most room is halved if it is a PNG
+// still wider than `minWidth`, and dropped otherwise.
+async function fitBudget(root: string, assets: InlineAsset[], pageBytes: number, budget: number): Promise<void> {
+  const total = () => assets.reduce((sum, asset) => sum + encodedSize(asset), pageBytes);
+  while (total() > budget) {
+    const largest = assets.filter((asset) => !asset.dropped).sort((a, b) => encodedSize(b) - encodedSize(a))[0];
+    if (!largest) return;
+
+    if (largest.type === "image/png" && (largest.width ?? Infinity) / 2 >= minWidth) {
+      const original = await Deno.readFile(`${root}/${largest.path}`);
+      const smaller = await downscalePng(original, largest.steps + 1);
+      if (smaller && smaller.bytes.length < largest.bytes.length) {
+        largest.bytes = smaller.bytes;
+        largest.width = smaller.width;
+        largest.steps++;
+        continue;
+      }
+    }
+    largest.dropped = true;
+  }
+}
+
+// The playground page with its modules inlined, the ANProto one as a `data:`
+// import. Browsers won't load module files over file://, so exports can't
+// link to client/playground.js the way the server does.
+async function renderInlinedPlayground(root: string): Promise<string> {
+  const core = await Deno.readTextFile(`${root}/client/anproto.js`);
+  const script = (await Deno.readTextFile(`${root}/client/playground.js`))
+    .replace(`"./anproto.js"`, () => `"data:text/javascript;base64,${toBase64(new TextEncoder().encode(core))}"`);
+  return renderPlayground()
+    .replace(`<script type="module" src="/client/playground.js"></script>`, () => `<script type="module">\n${script}\n</script>`);
+}
+
+// Single files carry the playground inside the deck as the iframe's `srcdoc`,
+// so there is no second file to send and a snapshot doesn't change when the
+// live playground does.
+async function inlinePlayground(root: string, html: string): Promise<string> {
+  if (!html.includes(` src="/playground"`)) return html;
+  const page = await renderInlinedPlayground(root);
+  return html.replaceAll(` src="/playground"`, () => ` srcdoc="${escapeHtml(page)}"`);
+}
+
+async function inlinePage(
+  root: string,
+  html: string,
+  resolvePage: (path: string) => string | undefined,
+  budget: number | undefined,
+  report: SingleFileReport,
+): Promise<string> {
+  const runtime = await Deno.readTextFile(`${root}/client/runtime.js`);
+  let page = html.replace(`<script src="${runtimePath}"></script>`, () => `<script>\n${runtime}\n</script>`);
+  page = await inlinePlayground(root, page);
+
+  const assets = new Map<string, InlineAsset>();
+  const targets = new Map<string, string>();
+  for (const match of page.matchAll(absolutePath)) {
+    const { bare } = splitPath(match[2]);
+    const linked = resolvePage(bare);
+    const file = normalize(decodeURIComponent(bare));
+    if (linked) {
+      targets.set(match[2], linked + match[2].slice(bare.length));
+    } else if (file && await isFile(`${root}/${file}`)) {
+      if (!assets.has(file)) assets.set(file, await loadAsset(root, file));
+      (assets.get(file) as InlineAsset).uses++;
+    } else if (!report.missing.includes(`/${match[2]}`)) {
+      report.missing.push(`/${match[2]}`);
+    }
+  }
+
+  const pageBytes = new TextEncoder().encode(page).length;
+  if (budget !== undefined) await fitBudget(root, [...assets.values()], pageBytes, budget);
+
+  for (const asset of assets.values()) {
+    const original = (await Deno.stat(`${root}/${asset.path}`)).size;
+    if (asset.dropped) {
+      report.dropped.push(`${asset.path} (${formatSize(original)})`);
+    } else if (asset.steps) {
+      report.downscaled.push(
+        `${asset.path} to ${asset.width}px wide (${formatSize(original)} -> ${formatSize(asset.bytes.length)})`,
+      );
+    }
+  }
+
+  page = page.replace(absolutePath, (whole, lead: string, path: string) => {
+    if (targets.has(path)) return `${lead}${targets.get(path)}`;
+    const asset = assets.get(normalize(decodeURIComponent(splitPath(path).bare)) ?? "");
+    return asset ? `${lead}${dataUri(asset)}` : whole;
+  });
+  report.bytes = new TextEncoder().encode(page).length;
+  return page;
+}
+
+/**
+ * Writes every deck to `outDir` as one self-contained `<slug>.html` with its
+ * images, stylesheets and runtime inlined. With a `budget` in bytes, assets
+ * are downscaled or dropped until each file fits, and the report says which.
+ */
+export async function exportSingleFiles(root: string, outDir: string, budget?: number): Promise<SingleFileReport[]> {
+  const entries = await loadRegistry(`${root}/decks`);
+  const resolvePage = pageResolver(entries);
+  await prepareOutDir(outDir);
+
+  const reports: SingleFileReport[] = [];
+  for (const entry of entries) {
+    const report: SingleFileReport = { page: `${entry.slug}.html`, bytes: 0, downscaled: [], dropped: [], missing: [] };
+    const html = await renderDeckFile(entry.path, { static: true });
+    await Deno.writeTextFile(`${outDir}/${report.page}`, await inlinePage(root, html, resolvePage, budget, report));
+    reports.push(report);
+  }
+  await writeExportManifest(outDir, reports.map((report) => report.page));
+  return reports;
+}
+
+/**
+ * Renders one deck as a self-contained page, as `--single` does. Links to
+ * other pages stay as they are, for pages served next to the live decks.
+ */
+export async function renderSingleFile(root: string, path: string): Promise<{ html: string; report: SingleFileReport }> {
+  const page = path.slice(path.lastIndexOf("/") + 1).replace(/\.md$/, ".html");
+  const report: SingleFileReport = { page, bytes: 0, downscaled: [], dropped: [], missing: [] };
+  const html = await renderDeckFile(path, { static: true });
+  return { html: await inlinePage(root, html, () => undefined, undefined, report), report };
+}
+
+if (import.meta.main) {
+  try {
+    if (Deno.args.includes("--single")) {
+      const outDir = flag("out") || "dist/single";
+      const budgetFlag = flag("budget") ?? "";
+      const budget = budgetFlag ? parseSize(budgetFlag) : undefined;
+      if (budgetFlag && budget === undefined) {
+        console.error(`Can't read --budget=${budgetFlag}; use a size like 8MB or 500KB`);
+        Deno.exit(1);
+      }
+      for (const report of await exportSingleFiles(Deno.cwd(), outDir, budget)) {
+        const over = budget !== undefined && report.bytes > budget ? " (still over budget)" : "";
+        console.log(`${outDir}/${report.page}: ${formatSize(report.bytes)}${over}`);
+        for (const line of report.downscaled) console.log(`  downscaled ${line}`);
+        for (const line of report.dropped) console.log(`  dropped ${line}`);
+        for (const path of report.missing) console.warn(`  not found, left as is: ${path}`);
+      }
+    } else {
+      const outDir = flag("out") || "dist";
+      const report = await exportDecks(Deno.cwd(), outDir, flag("default-deck") || "ssbc");
+      console.log(`Exported ${report.pages.length} pages and ${report.assets.length} assets to ${outDir}/`);
+      for (const path of report.missing) console.warn(`  not found, left as is: ${path}`);
+    }
+  } catch (error) {
+    console.error((error as Error).message);
+    Deno.exit(1);
+  }
+}
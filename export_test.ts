@@ -0,0 +1,16 @@
+import assert from "node:assert/strict";
+import { exportDecks } from "./export.ts";
+
+Deno.test("the exported playground loads no module files", async () => {
+  const outDir = await Deno.makeTempDir();
+  try {
+    await exportDecks(Deno.cwd(), outDir, "ssbc");
+    const html = await Deno.readTextFile(`${outDir}/playground.html`);
+    // Browsers refuse module scripts over file://, so the page must carry them.
+    assert.doesNotMatch(html, /<script\b[^>]*\btype="module"[^>]*\bsrc=/);
+    assert.match(html, /<script type="module">\n/);
+    assert.match(html, /from "data:text\/javascript;base64,/);
+  } finally {
+    await Deno.remove(outDir, { recursive: true });
+  }
+});
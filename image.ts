@@ -0,0 +1,235 @@
+// Just enough PNG to shrink images for the single-file export: decodes 8-bit,
+// non-interlaced PNGs of any colour type, halves them with a box filter and
+// re-encodes them as RGBA. Anything else is reported as unsupported.
+
+export interface DownscaledImage {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+interface Rgba {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+const signature = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function transform(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+const channelsFor: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+async function decodePng(bytes: Uint8Array): Promise<Rgba | null> {
+  if (!signature.every((byte, i) => bytes[i] === byte)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  let width = 0;
+  let height = 0;
+  let colorType = 0;
+  let palette: Uint8Array = new Uint8Array(0);
+  let transparency: Uint8Array = new Uint8Array(0);
+  const idat: Uint8Array[] = [];
+
+  for (let offset = 8; offset + 8 <= bytes.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IHDR") {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      colorType = data[9];
+      // Only 8-bit, non-interlaced images are handled.
+      if (data[8] !== 8 || data[12] !== 0 || !(colorType in channelsFor)) return null;
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+    offset += length + 12;
+  }
+  if (!width || !height || !idat.length) return null;
+
+  const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+  idat.reduce((at, chunk) => (compressed.set(chunk, at), at + chunk.length), 0);
+  const raw = await transform(compressed, new DecompressionStream("deflate"));
+
+  const channels = channelsFor[colorType];
+  const stride = width * channels;
+  if (raw.length < (stride + 1) * height) return null;
+
+  const pixels = new Uint8Array(width * height * 4);
+  let previous = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.slice(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? line[i - channels] : 0;
+      const up = previous[i];
+      const upLeft = i >= channels ? previous[i - channels] : 0;
+      switch (filter) {
+        case 1: line[i] += left; break;
+        case 2: line[i] += up; break;
+        case 3: line[i] += (left + up) >>> 1; break;
+        case 4: line[i] += paeth(left, up, upLeft); break;
+      }
+    }
+
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const at = x * channels;
+      if (colorType === 3) {
+        const index = line[at];
+        pixels[out] = palette[index * 3];
+        pixels[out + 1] = palette[index * 3 + 1];
+        pixels[out + 2] = palette[index * 3 + 2];
+        pixels[out + 3] = index < transparency.length ? transparency[index] : 255;
+      } else {
+        const gray = colorType === 0 || colorType === 4;
+        pixels[out] = line[at];
+        pixels[out + 1] = gray ? line[at] : line[at + 1];
+        pixels[out + 2] = gray ? line[at] : line[at + 2];
+        pixels[out + 3] = colorType === 4 ? line[at + 1] : colorType === 6 ? line[at + 3] : 255;
+      }
+    }
+    previous = line;
+  }
+  return { width, height, pixels };
+}
+
+// Box filter over 2x2 blocks, weighting colour by alpha so transparent pixels
+// don't bleed dark fringes into the edges.
+function halve(image: Rgba): Rgba {
+  const width = Math.max(1, image.width >> 1);
+  const height = Math.max(1, image.height >> 1);
+  const pixels = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0, a = 0, count = 0;
+      for (let dy = 0; dy < 2; dy++) {
+        for (let dx = 0; dx < 2; dx++) {
+          const sx = Math.min(image.width - 1, x * 2 + dx);
+          const sy = Math.min(image.height - 1, y * 2 + dy);
+          const at = (sy * image.width + sx) * 4;
+          const alpha = image.pixels[at + 3];
+          r += image.pixels[at] * alpha;
+          g += image.pixels[at + 1] * alpha;
+          b += image.pixels[at + 2] * alpha;
+          a += alpha;
+          count++;
+        }
+      }
+      const out = (y * width + x) * 4;
+      if (a) {
+        pixels[out] = Math.round(r / a);
+        pixels[out + 1] = Math.round(g / a);
+        pixels[out + 2] = Math.round(b / a);
+        pixels[out + 3] = Math.round(a / count);
+      }
+    }
+  }
+  return { width, height, pixels };
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(data.length + 12);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  out.set(new TextEncoder().encode(type), 4);
+  out.set(data, 8);
+  view.setUint32(data.length + 8, crc32(out.subarray(4, data.length + 8)));
+  return out;
+}
+
+// Each row gets whichever filter leaves the smallest residuals, the usual
+// heuristic for keeping photos compressible.
+async function encodePng(image: Rgba): Promise<Uint8Array> {
+  const { width, height, pixels } = image;
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  const candidate = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const line = pixels.subarray(y * stride, (y + 1) * stride);
+    const previous = y ? pixels.subarray((y - 1) * stride, y * stride) : new Uint8Array(stride);
+    let bestFilter = 0;
+    let bestScore = Infinity;
+    let best = line.slice();
+    for (let filter = 0; filter <= 4; filter++) {
+      let score = 0;
+      for (let i = 0; i < stride; i++) {
+        const left = i >= 4 ? line[i - 4] : 0;
+        const up = previous[i];
+        const upLeft = i >= 4 ? previous[i - 4] : 0;
+        switch (filter) {
+          case 0: candidate[i] = line[i]; break;
+          case 1: candidate[i] = line[i] - left; break;
+          case 2: candidate[i] = line[i] - up; break;
+          case 3: candidate[i] = line[i] - ((left + up) >>> 1); break;
+          default: candidate[i] = line[i] - paeth(left, up, upLeft); break;
+        }
+        score += candidate[i] < 128 ? candidate[i] : 256 - candidate[i];
+      }
+      if (score < bestScore) {
+        bestScore = score;
+        bestFilter = filter;
+        best = candidate.slice();
+      }
+    }
+    raw[y * (stride + 1)] = bestFilter;
+    raw.set(best, y * (stride + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, width);
+  view.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8);
+
+  const parts = [
+    new Uint8Array(signature),
+    chunk("IHDR", header),
+    chunk("IDAT", await transform(raw, new CompressionStream("deflate"))),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((at, part) => (out.set(part, at), at + part.length), 0);
+  return out;
+}
+
+/**
+ * Halves a PNG's dimensions `steps` times. Returns null for images this
+ * decoder doesn't handle (16-bit, interlaced, or not a PNG at all).
+ */
+export async function downscalePng(bytes: Uint8Array, steps = 1): Promise<DownscaledImage | null> {
+  let image = await decodePng(bytes);
+  if (!image) return null;
+  for (let i = 0; i < steps; i++) image = halve(image);
+  return { bytes: await encodePng(image), width: image.width, height: image.height };
+}
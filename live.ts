@@ -0,0 +1,210 @@
+// Server-side slide sessions. Each deck has one session holding the slide the
+// presenter is on; audience pages connect over WebSocket and are told every
+// time it changes. Phone remotes pair with a session by its short code.
+
+export interface Session {
+  slug: string;
+  index: number;
+  /** Build step reached on the current slide. */
+  step: number;
+  presenterKey: string;
+  pairingCode: string;
+  audience: Set<WebSocket>;
+  presenters: Set<WebSocket>;
+  remotes: Set<WebSocket>;
+}
+
+export interface RemoteSlide {
+  title: string;
+  notes: string;
+  builds: number;
+}
+
+const sessions = new Map<string, Session>();
+
+// No 0/O or 1/I, so codes survive being read off a projector.
+const codeAlphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+function newPairingCode(): string {
+  for (;;) {
+    const bytes = crypto.getRandomValues(new Uint8Array(5));
+    const code = Array.from(bytes, (byte) => codeAlphabet[byte % codeAlphabet.length]).join("");
+    if (!findSessionByCode(code)) return code;
+  }
+}
+
+export function getSession(slug: string): Session {
+  let session = sessions.get(slug);
+  if (!session) {
+    session = {
+      slug,
+      index: 0,
+      step: 0,
+      presenterKey: crypto.randomUUID(),
+      pairingCode: newPairingCode(),
+      audience: new Set(),
+      presenters: new Set(),
+      remotes: new Set(),
+    };
+    sessions.set(slug, session);
+  }
+  return session;
+}
+
+function findSessionByCode(code: string): Session | undefined {
+  const wanted = code.trim().toUpperCase();
+  for (const session of sessions.values()) {
+    if (session.pairingCode === wanted) return session;
+  }
+  return undefined;
+}
+
+// Codes are short enough to type on a phone, so guesses are rationed: after
+// `maxBadCodes` wrong codes from one address, it is refused until
+// `badCodeWindow` has passed since its first miss.
+const maxBadCodes = 5;
+const badCodeWindow = 60_000;
+const badCodes = new Map<string, { count: number; since: number }>();
+
+/**
+ * Pairs a phone remote from `address` with the session its code names, or
+ * says why it can't.
+ */
+export function pairRemote(code: string, address: string): { session: Session } | { error: string } {
+  const now = Date.now();
+  for (const [key, misses] of badCodes) {
+    if (now - misses.since > badCodeWindow) badCodes.delete(key);
+  }
+  const misses = badCodes.get(address);
+  if (misses && misses.count >= maxBadCodes) {
+    return { error: "Too many wrong codes; try again in a minute" };
+  }
+
+  const session = findSessionByCode(code);
+  if (session) return { session };
+  badCodes.set(address, { count: (misses?.count ?? 0) + 1, since: misses?.since ?? now });
+  return { error: "Unknown pairing code" };
+}
+
+/** Moves a session to `index` (at build `step`) and tells every connected page. */
+export function setSlide(session: Session, index: number, step = 0): void {
+  session.index = Math.max(0, Math.floor(index));
+  session.step = Math.max(0, Math.floor(step));
+  broadcast(session);
+}
+
+// Where a `goto` asks to go, kept inside the deck: whole numbers only, the
+// slide clamped to the deck and the step to that slide's builds.
+function gotoTarget(message: Record<string, unknown>, slides: RemoteSlide[]): { index: number; step: number } | null {
+  const { index, step = 0 } = message;
+  if (!Number.isInteger(index) || !Number.isInteger(step) || !slides.length) return null;
+  const slide = Math.min(Math.max(index as number, 0), slides.length - 1);
+  return { index: slide, step: Math.min(Math.max(step as number, 0), slides[slide].builds) };
+}
+
+// A session is live while a presenter view or a paired remote is connected;
+// audience pages only follow along while it is.
+function stateMessage(session: Session): string {
+  const live = session.presenters.size > 0 || session.remotes.size > 0;
+  return JSON.stringify({ type: "slide", index: session.index, step: session.step, live });
+}
+
+function broadcast(session: Session): void {
+  const message = stateMessage(session);
+  for (const socket of [...session.audience, ...session.presenters, ...session.remotes]) {
+    if (socket.readyState === WebSocket.OPEN) socket.send(message);
+  }
+}
+
+function parseMessage(data: unknown): Record<string, unknown> | null {
+  if (typeof data !== "string") return null;
+  try {
+    const message = JSON.parse(data);
+    return message && typeof message === "object" ? message : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Upgrades a request to the live socket for a deck. Sockets join as audience;
+ * a `hello` carrying the session's presenter key promotes one to presenter,
+ * and only presenters may send `goto`, within the deck's `slides`.
+ */
+export function handleLiveSocket(req: Request, slug: string, slides: RemoteSlide[]): Response {
+  if (req.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+    return new Response("Expected a WebSocket upgrade", { status: 426 });
+  }
+
+  const session = getSession(slug);
+  const { socket, response } = Deno.upgradeWebSocket(req);
+
+  socket.onopen = () => {
+    session.audience.add(socket);
+    socket.send(stateMessage(session));
+  };
+
+  socket.onmessage = (event) => {
+    const message = parseMessage(event.data);
+    if (!message) return;
+
+    if (message.type === "hello" && message.key === session.presenterKey) {
+      session.audience.delete(socket);
+      session.presenters.add(socket);
+      broadcast(session);
+    } else if (message.type === "goto" && session.presenters.has(socket)) {
+      const target = gotoTarget(message, slides);
+      if (target) setSlide(session, target.index, target.step);
+    }
+  };
+
+  socket.onclose = () => {
+    session.audience.delete(socket);
+    if (session.presenters.delete(socket)) broadcast(session);
+  };
+
+  return response;
+}
+
+/**
+ * Upgrades a request to a phone remote's socket. `session` is the session its
+ * pairing code matched, if any, and `error` why there is none. The remote is
+ * sent the deck's slide titles and notes once, then every slide change, and
+ * may send `goto` like a presenter.
+ */
+export function handleRemoteSocket(
+  req: Request,
+  session: Session | undefined,
+  title: string,
+  slides: RemoteSlide[],
+  error = "Unknown pairing code",
+): Response {
+  if (req.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+    return new Response("Expected a WebSocket upgrade", { status: 426 });
+  }
+
+  const { socket, response } = Deno.upgradeWebSocket(req);
+
+  socket.onopen = () => {
+    if (!session) {
+      socket.send(JSON.stringify({ type: "error", message: error }));
+      socket.close(4004, error);
+      return;
+    }
+    session.remotes.add(socket);
+    socket.send(JSON.stringify({ type: "deck", slug: session.slug, title, slides }));
+    broadcast(session);
+  };
+
+  socket.onmessage = (event) => {
+    const message = parseMessage(event.data);
+    const target = session && message?.type === "goto" ? gotoTarget(message, slides) : null;
+    if (session && target) setSlide(session, target.index, target.step);
+  };
+
+  socket.onclose = () => {
+    if (session?.remotes.delete(socket)) broadcast(session);
+  };
+
+  return response;
+}
@@ -0,0 +1,1180 @@
+// A CommonMark renderer. It covers the block structure (ATX and setext
+// headings, paragraphs, block quotes, nested ordered and bullet lists, fenced
+// and indented code, thematic breaks, link reference definitions, HTML
+// blocks) and the inlines (emphasis, links, images, code spans, autolinks,
+// escapes, entities, hard breaks). Raw HTML is escaped unless `allowHtml` is
+// set, and `javascript:`-style URLs are neutralised either way.
+//
+// It passes 622 of the 652 examples in the CommonMark 0.31.2 spec. The gaps:
+//
+// - Entity and numeric character references are passed through as written,
+//   not decoded. They display the same, but they stay literal in link
+//   destinations, titles and fence info strings. Unknown names such as
+//   `&MadeUpEntity;` are not escaped (examples 25-28, 30, 32-34, 37-40, 503,
+//   506).
+// - A tab right after a `>` or list marker doesn't count towards an indented
+//   code block (6, 7).
+// - Lazy continuation lines can turn into a setext underline or carry on an
+//   indented or fenced code block after a block quote ends (93, 236, 237).
+// - A link reference title can't span a blank line, and `[foo]: <bar>(baz)`
+//   is read as a definition (197, 201).
+// - Lists loosen or tighten wrongly around blank lines before nested items,
+//   empty items and reference definitions (307, 315, 317, 319).
+// - `<!-->` and `<!--->` are not read as empty HTML comments (626).
+// - `'` is written as `&#39;` (12, 620, 622, 650), which browsers treat the same.
+
+import { escapeHtml } from "./util.ts";
+
+export interface MarkdownOptions {
+  /** Pass raw HTML through instead of escaping it. Only for trusted sources. */
+  allowHtml?: boolean;
+}
+
+interface LinkReference {
+  href: string;
+  title?: string;
+}
+
+type References = Map<string, LinkReference>;
+
+type Block =
+  | { type: "paragraph"; text: string }
+  | { type: "heading"; level: number; text: string }
+  | { type: "code"; info: string; text: string }
+  | { type: "html"; html: string }
+  | { type: "hr" }
+  | { type: "blockquote"; children: Block[] }
+  | { type: "list"; ordered: boolean; start: number; tight: boolean; items: Block[][] };
+
+interface ListMarker {
+  ordered: boolean;
+  bullet: string;
+  start: number;
+  /** Column where the item's content starts. */
+  width: number;
+  content: string;
+  blank: boolean;
+}
+
+const asciiPunctuation = /[!-\/:-@\[-`{-~]/;
+const punctuation = /[\p{P}\p{S}]/u;
+const whitespace = /\s/u;
+
+const fenceOpen = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const fenceClose = /^ {0,3}(`{3,}|~{3,})[ \t]*$/;
+const atxHeading = /^ {0,3}(#{1,6})(?=[ \t]|$)(.*)$/;
+const thematicBreak = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const blockquoteMarker = /^ {0,3}> ?/;
+const setextUnderline = /^ {0,3}(=+|-+)[ \t]*$/;
+const referenceDefinition =
+  /^ {0,3}\[((?:[^\\\[\]]|\\.){1,999})\]:[ \t]*\n?[ \t]*(<(?:[^<>\n\\]|\\.)*>|\S+)(?:[ \t]*\n?[ \t]*("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\)))?[ \t]*(?:\n|$)/;
+
+const htmlBlockTags =
+  "address|article|aside|base|basefont|blockquote|body|caption|center|col|colgroup|dd|details|dialog|dir|div|dl|dt|fieldset|figcaption|figure|footer|form|frame|frameset|h[1-6]|head|header|hr|html|iframe|legend|li|link|main|menu|menuitem|nav|noframes|ol|optgroup|option|p|param|search|section|summary|table|tbody|td|tfoot|th|thead|title|tr|track|ul";
+const attribute = `\\s+[a-zA-Z_:][\\w.:-]*(?:\\s*=\\s*(?:[^\\s"'=<>\`]+|'[^']*'|"[^"]*"))?`;
+const openTag = `<[a-zA-Z][a-zA-Z0-9-]*(?:${attribute})*\\s*\\/?>`;
+const closeTag = `<\\/[a-zA-Z][a-zA-Z0-9-]*\\s*>`;
+
+// The seven kinds of HTML block: how each starts, what ends it (null for a
+// blank line), and whether it may interrupt a paragraph.
+const htmlBlocks: [RegExp, RegExp | null, boolean][] = [
+  [/^ {0,3}<(?:script|pre|style|textarea)(?:\s|>|$)/i, /<\/(?:script|pre|style|textarea)>/i, true],
+  [/^ {0,3}<!--/, /-->/, true],
+  [/^ {0,3}<\?/, /\?>/, true],
+  [/^ {0,3}<![a-zA-Z]/, />/, true],
+  [/^ {0,3}<!\[CDATA\[/, /\]\]>/, true],
+  [new RegExp(`^ {0,3}<\\/?(?:${htmlBlockTags})(?:\\s|\\/?>|$)`, "i"), null, true],
+  [new RegExp(`^ {0,3}(?:${openTag}|${closeTag})[ \\t]*$`), null, false],
+];
+
+const inlineHtml = new RegExp(
+  `^(?:${openTag}|${closeTag}|<!--(?!-?>)[\\s\\S]*?-->|<\\?[\\s\\S]*?\\?>|<![a-zA-Z][^>]*>|<!\\[CDATA\\[[\\s\\S]*?\\]\\]>)`,
+);
+
+function isBlank(line: string): boolean {
+  return !line.trim();
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+// Leading tabs become spaces (tab stops of 4) so indentation can be counted.
+function expandTabs(line: string): string {
+  const lead = line.match(/^[ \t]*/)?.[0] ?? "";
+  if (!lead.includes("\t")) return line;
+  let spaces = "";
+  for (const ch of lead) spaces += ch === "\t" ? " ".repeat(4 - (spaces.length % 4)) : " ";
+  return spaces + line.slice(lead.length);
+}
+
+function unescapeMarkdown(text: string): string {
+  return text.replace(/\\([!-\/:-@\[-`{-~])/g, "$1");
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, " ").toLowerCase().toUpperCase();
+}
+
+function listMarker(line: string): ListMarker | null {
+  const match = line.match(/^ {0,3}(?:([-+*])|(\d{1,9})([.)]))(?=[ \t]|$)/);
+  if (!match) return null;
+  const after = line.slice(match[0].length);
+  const spaces = indentOf(after);
+  const blank = isBlank(after);
+  const padding = blank || spaces >= 5 ? 1 : spaces;
+  return {
+    ordered: !match[1],
+    bullet: match[1] ?? match[3],
+    start: match[2] ? Number(match[2]) : 1,
+    width: match[0].length + padding,
+    content: blank ? "" : after.slice(padding),
+    blank,
+  };
+}
+
+function opensFence(line: string): RegExpMatchArray | null {
+  const match = line.match(fenceOpen);
+  return match && !(match[2][0] === "`" && match[3].includes("`")) ? match : null;
+}
+
+function interruptsParagraph(line: string, options: MarkdownOptions): boolean {
+  if (opensFence(line) || atxHeading.test(line) || thematicBreak.test(line) || blockquoteMarker.test(line)) {
+    return true;
+  }
+  if (options.allowHtml && htmlBlocks.some(([start, , interrupts]) => interrupts && start.test(line))) {
+    return true;
+  }
+  const marker = listMarker(line);
+  return !!marker && !marker.blank && (!marker.ordered || marker.start === 1);
+}
+
+// Link reference definitions can only open a paragraph; whatever follows them
+// is the paragraph's real text.
+function takeReferences(text: string, refs: References): string {
+  let rest = text;
+  for (let match = rest.match(referenceDefinition); match; match = rest.match(referenceDefinition)) {
+    const label = normalizeLabel(match[1]);
+    if (!label) break;
+    const href = match[2].startsWith("<") ? match[2].slice(1, -1) : match[2];
+    if (!refs.has(label)) {
+      refs.set(label, {
+        href: unescapeMarkdown(href),
+        title: match[3] ? unescapeMarkdown(match[3].slice(1, -1)) : undefined,
+      });
+    }
+    rest = rest.slice(match[0].length);
+  }
+  return rest;
+}
+
+function parseBlocks(lines: string[], refs: References, options: MarkdownOptions): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const closeParagraph = () => {
+    if (!paragraph.length) return;
+    const text = takeReferences(paragraph.join("\n"), refs);
+    paragraph = [];
+    if (text.trim()) blocks.push({ type: "paragraph", text: text.replace(/[ \t]+$/, "") });
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      closeParagraph();
+      continue;
+    }
+
+    if (paragraph.length) {
+      const underline = line.match(setextUnderline);
+      if (underline) {
+        const text = takeReferences(paragraph.join("\n"), refs);
+        paragraph = [];
+        if (text.trim()) {
+          blocks.push({ type: "heading", level: underline[1][0] === "=" ? 1 : 2, text: text.trim() });
+          continue;
+        }
+      } else if (!interruptsParagraph(line, options)) {
+        paragraph.push(line.trimStart());
+        continue;
+      } else {
+        closeParagraph();
+      }
+    }
+
+    if (indentOf(line) >= 4) {
+      const code: string[] = [];
+      for (; i < lines.length && (isBlank(lines[i]) || indentOf(lines[i]) >= 4); i++) {
+        code.push(lines[i].slice(Math.min(4, indentOf(lines[i]))));
+      }
+      i--;
+      while (isBlank(code[code.length - 1])) code.pop();
+      blocks.push({ type: "code", info: "", text: `${code.join("\n")}\n` });
+      continue;
+    }
+
+    const fence = opensFence(line);
+    if (fence) {
+      const indent = new RegExp(`^ {0,${fence[1].length}}`);
+      const code: string[] = [];
+      for (i++; i < lines.length; i++) {
+        const close = lines[i].match(fenceClose);
+        if (close && close[1][0] === fence[2][0] && close[1].length >= fence[2].length) break;
+        code.push(lines[i].replace(indent, ""));
+      }
+      const info = unescapeMarkdown(fence[3].trim());
+      blocks.push({ type: "code", info, text: code.length ? `${code.join("\n")}\n` : "" });
+      continue;
+    }
+
+    const heading = line.match(atxHeading);
+    if (heading) {
+      const text = heading[2].replace(/(?:^|[ \t]+)#+[ \t]*$/, "").trim();
+      blocks.push({ type: "heading", level: heading[1].length, text });
+      continue;
+    }
+
+    if (thematicBreak.test(line)) {
+      blocks.push({ type: "hr" });
+      continue;
+    }
+
+    if (blockquoteMarker.test(line)) {
+      const inner: string[] = [];
+      for (; i < lines.length; i++) {
+        const current = lines[i];
+        if (blockquoteMarker.test(current)) {
+          inner.push(expandTabs(current.replace(blockquoteMarker, "")));
+        } else if (
+          !isBlank(current) && inner.length && !isBlank(inner[inner.length - 1]) &&
+          !interruptsParagraph(current, options)
+        ) {
+          inner.push(current); // lazy continuation of a quoted paragraph
+        } else {
+          break;
+        }
+      }
+      i--;
+      blocks.push({ type: "blockquote", children: parseBlocks(inner, refs, options) });
+      continue;
+    }
+
+    const html = options.allowHtml ? htmlBlocks.find(([start]) => start.test(line)) : undefined;
+    if (html) {
+      const [, end] = html;
+      const raw: string[] = [];
+      for (; i < lines.length; i++) {
+        if (!end && isBlank(lines[i])) break;
+        raw.push(lines[i]);
+        if (end?.test(lines[i])) break;
+      }
+      if (!end) i--;
+      blocks.push({ type: "html", html: raw.join("\n") });
+      continue;
+    }
+
+    const marker = listMarker(line);
+    if (marker) {
+      const list: Block & { type: "list" } = {
+        type: "list",
+        ordered: marker.ordered,
+        start: marker.start,
+        tight: true,
+        items: [],
+      };
+      while (i < lines.length) {
+        const item = listMarker(lines[i]);
+        if (!item || item.ordered !== marker.ordered || item.bullet !== marker.bullet || thematicBreak.test(lines[i])) {
+          break;
+        }
+
+        const itemLines = [item.content];
+        for (i++; i < lines.length; i++) {
+          const current = lines[i];
+          if (isBlank(current)) {
+            // An item may start with at most one blank line.
+            if (item.blank && itemLines.length === 1) break;
+            itemLines.push("");
+          } else if (indentOf(current) >= item.width) {
+            itemLines.push(current.slice(item.width));
+          } else if (
+            !isBlank(itemLines[itemLines.length - 1]) && !listMarker(current) &&
+            !interruptsParagraph(current, options)
+          ) {
+            itemLines.push(current); // lazy continuation
+          } else {
+            break;
+          }
+        }
+
+        let trailing = 0;
+        while (itemLines.length > 1 && isBlank(itemLines[itemLines.length - 1])) {
+          itemLines.pop();
+          trailing++;
+        }
+        const children = parseBlocks(itemLines, refs, options);
+        if (children.length > 1 && itemLines.some(isBlank)) list.tight = false;
+        list.items.push(children);
+
+        const next = i < lines.length ? listMarker(lines[i]) : null;
+        const continues = !!next && next.ordered === marker.ordered && next.bullet === marker.bullet &&
+          !thematicBreak.test(lines[i]);
+        if (trailing && continues) list.tight = false;
+        if (!continues) break;
+      }
+      i--;
+      blocks.push(list);
+      continue;
+    }
+
+    paragraph.push(line.trimStart());
+  }
+
+  closeParagraph();
+  return blocks;
+}
+
+type Inline =
+  | { kind: "text"; text: string }
+  | { kind: "html"; html: string; text: string }
+  | { kind: "delim"; char: string; count: number; length: number; canOpen: boolean; canClose: boolean }
+  | { kind: "bracket"; image: boolean; active: boolean; start: number }
+  | { kind: "em" | "strong"; children: Inline[] }
+  | { kind: "link"; href: string; title?: string; children: Inline[] }
+  | { kind: "image"; src: string; title?: string; alt: Inline[] };
+
+type Delimiter = Inline & { kind: "delim" };
+
+/**
+ * Makes a URL safe for an attribute: script-bearing schemes become `#`, and
+ * characters outside the URL grammar are percent-encoded.
+ */
+function safeUrl(url: string, image = false): string {
+  const probe = [...url].filter((ch) => ch > " ").join("").toLowerCase();
+  if (/^(?:javascript|vbscript|file):/.test(probe)) return "#";
+  if (probe.startsWith("data:") && !(image && /^data:image\/(?:png|gif|jpeg|webp);/.test(probe))) return "#";
+  return url.replace(/%(?![0-9a-fA-F]{2})|[^\w\-.~:/?#@!$&'()*+,;=%]/gu, (ch) => encodeURIComponent(ch));
+}
+
+// Parses `(destination "title")` after a link's closing bracket. `at` is the
+// index just past the `(`.
+function parseLinkTail(src: string, at: number): { href: string; title?: string; end: number } | null {
+  let i = at;
+  const skipSpace = () => {
+    const start = i;
+    while (i < src.length && /[ \t\n]/.test(src[i])) i++;
+    return i - start;
+  };
+
+  skipSpace();
+  let href = "";
+  if (src[i] === "<") {
+    const match = src.slice(i).match(/^<((?:[^<>\n\\]|\\.)*)>/);
+    if (!match) return null;
+    href = match[1];
+    i += match[0].length;
+  } else {
+    const start = i;
+    let depth = 0;
+    for (; i < src.length; i++) {
+      const ch = src[i];
+      if (ch === "\\" && asciiPunctuation.test(src[i + 1] ?? "")) {
+        i++;
+      } else if (ch === "(") {
+        depth++;
+      } else if (ch === ")") {
+        if (depth === 0) break;
+        depth--;
+      } else if (ch <= " ") {
+        break;
+      }
+    }
+    if (depth !== 0) return null;
+    href = src.slice(start, i);
+  }
+
+  let title: string | undefined;
+  if (skipSpace() && /["'(]/.test(src[i] ?? "")) {
+    const close = src[i] === "(" ? ")" : src[i];
+    const pattern = new RegExp(`^\\${src[i]}((?:[^\\\\${close === ")" ? "()" : close}]|\\\\.)*)\\${close}`);
+    const match = src.slice(i).match(pattern);
+    if (!match) return null;
+    title = unescapeMarkdown(match[1]);
+    i += match[0].length;
+    skipSpace();
+  }
+  if (src[i] !== ")") return null;
+  return { href: unescapeMarkdown(href), title, end: i + 1 };
+}
+
+function flanking(src: string, start: number, end: number): { left: boolean; right: boolean; before: string; after: string } {
+  const before = start > 0 ? src[start - 1] : " ";
+  const after = end < src.length ? src[end] : " ";
+  const left = !whitespace.test(after) &&
+    (!punctuation.test(after) || whitespace.test(before) || punctuation.test(before));
+  const right = !whitespace.test(before) &&
+    (!punctuation.test(before) || whitespace.test(after) || punctuation.test(after));
+  return { left, right, before, after };
+}
+
+// The CommonMark delimiter algorithm: each closer pairs with the nearest
+// compatible opener, and the run lengths decide between <em> and <strong>.
+function processEmphasis(nodes: Inline[]): void {
+  for (let c = 0; c < nodes.length; c++) {
+    const closer = nodes[c];
+    if (closer.kind !== "delim" || !closer.canClose) continue;
+
+    let o = c - 1;
+    for (; o >= 0; o--) {
+      const opener = nodes[o];
+      if (opener.kind !== "delim" || opener.char !== closer.char || !opener.canOpen) continue;
+      const ruleOfThree = (opener.canClose || closer.canOpen) &&
+        (opener.length + closer.length) % 3 === 0 &&
+        !(opener.length % 3 === 0 && closer.length % 3 === 0);
+      if (!ruleOfThree) break;
+    }
+    if (o < 0) continue;
+
+    const opener = nodes[o] as Delimiter;
+    const use = opener.count >= 2 && closer.count >= 2 ? 2 : 1;
+    opener.count -= use;
+    closer.count -= use;
+    const inner = nodes.splice(o + 1, c - o - 1);
+    nodes.splice(o + 1, 0, { kind: use === 2 ? "strong" : "em", children: inner });
+    c = o + 2;
+    if (opener.count === 0) {
+      nodes.splice(o, 1);
+      c--;
+    }
+    if (closer.count === 0) nodes.splice(c, 1);
+    c--;
+  }
+}
+
+function parseInline(src: string, refs: References, options: MarkdownOptions): Inline[] {
+  const nodes: Inline[] = [];
+  let text = "";
+  const flush = () => {
+    if (text) nodes.push({ kind: "text", text });
+    text = "";
+  };
+  const html = (markup: string, plain: string) => {
+    flush();
+    nodes.push({ kind: "html", html: markup, text: plain });
+  };
+
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    const rest = src.slice(i);
+
+    if (ch === "\\") {
+      const next = src[i + 1] ?? "";
+      if (next === "\n") {
+        html("<br />\n", "\n");
+        i += 2;
+        while (src[i] === " " || src[i] === "\t") i++;
+      } else if (asciiPunctuation.test(next)) {
+        text += next;
+        i += 2;
+      } else {
+        text += ch;
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === "`") {
+      const run = rest.match(/^`+/)![0];
+      const closing = new RegExp(`(?<!\`)${run}(?!\`)`, "g");
+      closing.lastIndex = i + run.length;
+      const close = closing.exec(src);
+      if (!close) {
+        text += run;
+        i += run.length;
+        continue;
+      }
+      let code = src.slice(i + run.length, close.index).replace(/\n/g, " ");
+      if (/^ .*[^ ].* $|^ [^ ] $/s.test(code)) code = code.slice(1, -1);
+      html(`<code>${escapeHtml(code)}</code>`, code);
+      i = close.index + run.length;
+      continue;
+    }
+
+    if (ch === "<") {
+      const uri = rest.match(/^<([a-zA-Z][a-zA-Z0-9+.-]{1,31}:[^\s<>]*)>/);
+      const email = rest.match(
+        /^<([a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*)>/,
+      );
+      const raw = options.allowHtml ? rest.match(inlineHtml) : null;
+      if (uri || email) {
+        const target = (uri ?? email)![1];
+        const href = safeUrl(uri ? target : `mailto:${target}`);
+        html(`<a href="${escapeHtml(href)}">${escapeHtml(target)}</a>`, target);
+        i += (uri ?? email)![0].length;
+      } else if (raw) {
+        html(raw[0], "");
+        i += raw[0].length;
+      } else {
+        text += ch;
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === "&") {
+      const entity = rest.match(/^&(?:#[xX][0-9a-fA-F]{1,6}|#\d{1,7}|[a-zA-Z][a-zA-Z0-9]{1,31});/);
+      if (entity) {
+        html(entity[0], entity[0]);
+        i += entity[0].length;
+      } else {
+        text += ch;
+        i++;
+      }
+      continue;
+    }
+
+    if (ch === "*" || ch === "_") {
+      const run = rest.match(ch === "*" ? /^\*+/ : /^_+/)![0];
+      const { left, right, before, after } = flanking(src, i, i + run.length);
+      const canOpen = ch === "*" ? left : left && (!right || punctuation.test(before));
+      const canClose = ch === "*" ? right : right && (!left || punctuation.test(after));
+      flush();
+      nodes.push({ kind: "delim", char: ch, count: run.length, length: run.length, canOpen, canClose });
+      i += run.length;
+      continue;
+    }
+
+    if (ch === "[" || (ch === "!" && src[i + 1] === "[")) {
+      flush();
+      const image = ch === "!";
+      nodes.push({ kind: "bracket", image, active: true, start: i + (image ? 2 : 1) });
+      i += image ? 2 : 1;
+      continue;
+    }
+
+    if (ch === "]") {
+      flush();
+      i = closeBracket(src, i, nodes, refs);
+      continue;
+    }
+
+    if (ch === "\n") {
+      const hard = / {2,}$/.test(text);
+      text = text.replace(/ +$/, "");
+      html(hard ? "<br />\n" : "\n", "\n");
+      i++;
+      while (src[i] === " " || src[i] === "\t") i++;
+      continue;
+    }
+
+    text += ch;
+    i++;
+  }
+
+  flush();
+  processEmphasis(nodes);
+  return nodes;
+}
+
+// Handles a `]`: finds the bracket it closes and, if a destination or a known
+// reference follows, turns everything in between into a link or image.
+function closeBracket(src: string, at: number, nodes: Inline[], refs: References): number {
+  let openerIndex = nodes.length - 1;
+  while (openerIndex >= 0 && nodes[openerIndex].kind !== "bracket") openerIndex--;
+  const opener = nodes[openerIndex] as (Inline & { kind: "bracket" }) | undefined;
+  const literal = () => {
+    if (opener) nodes[openerIndex] = { kind: "text", text: opener.image ? "![" : "[" };
+    nodes.push({ kind: "text", text: "]" });
+    return at + 1;
+  };
+  if (!opener || !opener.active) return literal();
+
+  let target: { href: string; title?: string; end: number } | null = null;
+  if (src[at + 1] === "(") target = parseLinkTail(src, at + 2);
+  if (!target) {
+    const full = src.slice(at + 1).match(/^\[((?:[^\\\[\]]|\\.){0,999})\]/);
+    const label = full && full[1].trim() ? full[1] : src.slice(opener.start, at);
+    const ref = refs.get(normalizeLabel(label));
+    if (ref) target = { ...ref, end: at + 1 + (full ? full[0].length : 0) };
+  }
+  if (!target) return literal();
+
+  const children = nodes.splice(openerIndex + 1);
+  nodes.pop();
+  processEmphasis(children);
+  if (opener.image) {
+    nodes.push({ kind: "image", src: target.href, title: target.title, alt: children });
+  } else {
+    nodes.push({ kind: "link", href: target.href, title: target.title, children });
+    // Links may not contain other links.
+    for (const node of nodes) if (node.kind === "bracket" && !node.image) node.active = false;
+  }
+  return target.end;
+}
+
+function plainText(nodes: Inline[]): string {
+  return nodes.map((node) => {
+    switch (node.kind) {
+      case "text":
+      case "html":
+        return node.text;
+      case "delim":
+        return node.char.repeat(node.count);
+      case "bracket":
+        return node.image ? "![" : "[";
+      case "image":
+        return plainText(node.alt);
+      default:
+        return plainText(node.children);
+    }
+  }).join("");
+}
+
+function renderInlineNodes(nodes: Inline[]): string {
+  return nodes.map((node) => {
+    switch (node.kind) {
+      case "text":
+        return escapeHtml(node.text);
+      case "html":
+        return node.html;
+      case "delim":
+        return escapeHtml(node.char.repeat(node.count));
+      case "bracket":
+        return node.image ? "![" : "[";
+      case "em":
+        return `<em>${renderInlineNodes(node.children)}</em>`;
+      case "strong":
+        return `<strong>${renderInlineNodes(node.children)}</strong>`;
+      case "link": {
+        const title = node.title ? ` title="${escapeHtml(node.title)}"` : "";
+        return `<a href="${escapeHtml(safeUrl(node.href))}"${title}>${renderInlineNodes(node.children)}</a>`;
+      }
+      case "image": {
+        const title = node.title ? ` title="${escapeHtml(node.title)}"` : "";
+        return `<img src="${escapeHtml(safeUrl(node.src, true))}" alt="${escapeHtml(plainText(node.alt))}"${title} />`;
+      }
+    }
+  }).join("");
+}
+
+function renderBlocks(blocks: Block[], refs: References, options: MarkdownOptions, tight = false): string {
+  let out = "";
+  const cr = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+  const inline = (text: string) => renderInlineNodes(parseInline(text, refs, options));
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case "paragraph":
+        if (tight) {
+          out += inline(block.text);
+        } else {
+          cr();
+          out += `<p>${inline(block.text)}</p>\n`;
+        }
+        break;
+      case "heading":
+        cr();
+        out += `<h${block.level}>${inline(block.text)}</h${block.level}>\n`;
+        break;
+      case "code": {
+        const language = block.info.split(/\s+/)[0];
+        const attr = language ? ` class="language-${escapeHtml(language)}"` : "";
+        cr();
+        out += `<pre><code${attr}>${escapeHtml(block.text)}</code></pre>\n`;
+        break;
+      }
+      case "html":
+        cr();
+        out += `${block.html}\n`;
+        break;
+      case "hr":
+        cr();
+        out += "<hr />\n";
+        break;
+      case "blockquote":
+        cr();
+        out += `<blockquote>\n${renderBlocks(block.children, refs, options)}</blockquote>\n`;
+        break;
+      case "list": {
+        const tag = block.ordered ? "ol" : "ul";
+        const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : "";
+        cr();
+        out += `<${tag}${start}>\n`;
+        for (const item of block.items) {
+          let content = renderBlocks(item, refs, options, block.tight);
+          if (item.length && (item[0].type !== "paragraph" || !block.tight)) content = `\n${content}`;
+          out += `<li>${content}</li>\n`;
+        }
+        out += `</${tag}>\n`;
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+function parseDocument(markdown: string, options: MarkdownOptions): { blocks: Block[]; refs: References } {
+  const refs: References = new Map();
+  const source = markdown.replace(/\r\n?/g, "\n").replaceAll("\0", "\ufffd").replace(/\n$/, "");
+  const lines = source.split("\n").map(expandTabs);
+  return { blocks: parseBlocks(lines, refs, options), refs };
+}
+
+/** Renders a Markdown document to HTML. */
+export function renderMarkdown(markdown: string, options: MarkdownOptions = {}): string {
+  const { blocks, refs } = parseDocument(markdown, options);
+  return renderBlocks(blocks, refs, options);
+}
+
+/** Renders a single line of Markdown (a table cell, a heading) without a `<p>`. */
+export function renderInline(markdown: string, options: MarkdownOptions = {}): string {
+  return renderInlineNodes(parseInline(markdown.trim(), new Map(), options));
+}
+
+export type TableAlignment = "left" | "center" | "right" | null;
+
+/** Where a cell's claim comes from. */
+export interface Citation {
+  source?: string;
+  /** Inline Markdown. */
+  note?: string;
+}
+
+export interface MarkdownTable {
+  /** Text of the nearest heading above the table, or null. */
+  name: string | null;
+  header: string[];
+  align: TableAlignment[];
+  rows: string[][];
+  /** Citations for body cells, parallel to `rows`. */
+  citations?: (Citation | null)[][];
+  /** 1-based line number of the header row, or 0 for a table built from data. */
+  line: number;
+}
+
+export interface TableProblem {
+  /** 1-based line number, when the problem has one. */
+  line?: number;
+  message: string;
+}
+
+export interface TableLogo {
+  src: string;
+  alt: string;
+  /** Invert the image, for dark artwork on a dark slide (or the reverse). */
+  invert: boolean;
+}
+
+export interface ParsedTables {
+  tables: MarkdownTable[];
+  problems: TableProblem[];
+  /** Header logos from the file's frontmatter, keyed by column name. */
+  logos: Record<string, TableLogo>;
+}
+
+const tableDivider = /^:?-+:?$/;
+const footnoteMarker = /\[\^([^\]\s]+)\]/g;
+const footnoteDefinition = /^ {0,3}\[\^([^\]\s]+)\]:\s*(.*)$/;
+const tableHeading = /^ {0,3}#{1,6}[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const tableInterrupt = /^ {0,3}(?:>|#{1,6}(?:[ \t]|$)|`{3,}|~{3,})/;
+
+// Splits a row on unescaped pipes. The optional leading and trailing pipes
+// don't make cells, and `\|` becomes a literal pipe inside the cell.
+function splitTableRow(line: string): string[] {
+  let text = line.trim();
+  if (text.startsWith("|")) text = text.slice(1);
+  if (text.endsWith("|") && !/(?:^|[^\\])(?:\\\\)*\\\|$/.test(text)) text = text.slice(0, -1);
+
+  const cells: string[] = [];
+  let cell = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\\" && text[i + 1] === "|") {
+      cell += "|";
+      i++;
+    } else if (ch === "\\" && i + 1 < text.length) {
+      cell += ch + text[i + 1];
+      i++;
+    } else if (ch === "|") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function tableAlignment(cell: string): TableAlignment {
+  const left = cell.startsWith(":");
+  const right = cell.endsWith(":");
+  return left && right ? "center" : right ? "right" : left ? "left" : null;
+}
+
+interface FrontmatterEntry {
+  value: string;
+  options: Map<string, string>;
+}
+
+interface Frontmatter {
+  /** Top-level `key: value` lines. */
+  fields: Map<string, string>;
+  /** Indented `Name: value | option=...` lines, by the block they sit under. */
+  blocks: Map<string, Map<string, FrontmatterEntry>>;
+  /** The index of the first line after the frontmatter. */
+  end: number;
+}
+
+// Table and column files may start with frontmatter: plain fields and blocks
+// keyed by column or heading name, each value taking ` | ` options.
+//
+//   ---
+//   logos:
+//     SSB: /hermies.png | alt=SSB logo
+//     Diaspora: /diaspora-logo.svg | invert
+//   ---
+function parseFileFrontmatter(lines: string[]): Frontmatter {
+  const fields = new Map<string, string>();
+  const blocks = new Map<string, Map<string, FrontmatterEntry>>();
+  if (lines[0]?.trim() !== "---") return { fields, blocks, end: 0 };
+
+  let end = 1;
+  let block: Map<string, FrontmatterEntry> | null = null;
+  for (; end < lines.length; end++) {
+    const line = lines[end];
+    if (line.trim() === "---") break;
+    if (!/^\s/.test(line)) {
+      const field = line.match(/^([\w-]+):\s*(.*)$/);
+      block = null;
+      if (field?.[2]) {
+        fields.set(field[1], field[2].trim());
+      } else if (field) {
+        block = new Map();
+        blocks.set(field[1], block);
+      }
+      continue;
+    }
+    const match = line.match(/^\s+(.+?):\s+(.+)$/);
+    if (!block || !match) continue;
+    const [value, ...parts] = match[2].split(/\s+\|\s+/);
+    const options = new Map(parts.map((part) => {
+      const at = part.indexOf("=");
+      return at === -1 ? [part.trim(), ""] : [part.slice(0, at).trim(), part.slice(at + 1).trim()];
+    }));
+    block.set(match[1].trim(), { value: value.trim(), options });
+  }
+  return { fields, blocks, end: end + 1 };
+}
+
+/**
+ * Finds every GFM table in a Markdown file. Each table is named after the
+ * heading above it. Rows with too few cells are padded and extra cells are
+ * dropped, as GFM does, but both are reported along with headers whose
+ * divider doesn't match.
+ */
+export function parseTables(markdown: string): ParsedTables {
+  const lines = markdown.split(/\r?\n/);
+  const tables: MarkdownTable[] = [];
+  const problems: TableProblem[] = [];
+  const { blocks, end } = parseFileFrontmatter(lines);
+  const logos: Record<string, TableLogo> = {};
+  for (const [column, { value, options }] of blocks.get("logos") ?? []) {
+    logos[column] = { src: value, alt: options.get("alt") || `${column} logo`, invert: options.has("invert") };
+  }
+  let name: string | null = null;
+
+  for (let i = end; i < lines.length; i++) {
+    const heading = lines[i].match(tableHeading);
+    if (heading) {
+      name = heading[1].trim();
+      continue;
+    }
+    if (i + 1 >= lines.length || !lines[i].includes("|") || !lines[i + 1].includes("|")) continue;
+
+    const divider = splitTableRow(lines[i + 1]);
+    if (!divider.every((cell) => tableDivider.test(cell))) continue;
+    const header = splitTableRow(lines[i]);
+    if (header.length !== divider.length) {
+      problems.push({
+        line: i + 1,
+        message: `header has ${header.length} cells but the divider has ${divider.length}; not a table`,
+      });
+      i++;
+      continue;
+    }
+
+    const table: MarkdownTable = { name, header, align: divider.map(tableAlignment), rows: [], line: i + 1 };
+    let j = i + 2;
+    for (; j < lines.length && lines[j].trim() && !tableInterrupt.test(lines[j]); j++) {
+      const cells = splitTableRow(lines[j]);
+      if (cells.length !== header.length) {
+        const fix = cells.length < header.length ? "padded with empty cells" : "extra cells dropped";
+        problems.push({
+          line: j + 1,
+          message: `row has ${cells.length} cell${cells.length === 1 ? "" : "s"}, expected ${header.length}; ${fix}`,
+        });
+      }
+      table.rows.push(header.map((_, index) => cells[index] ?? ""));
+    }
+    tables.push(table);
+    i = j - 1;
+  }
+
+  attachFootnotes(lines, tables, problems);
+  return { tables, problems, logos };
+}
+
+/**
+ * Splits a footnote or citation text into a leading source URL and the note
+ * after it: `https://example.com/spec Section 3` or just a note.
+ */
+export function parseCitation(text: string): Citation {
+  const match = text.trim().match(/^<?(https?:\/\/[^\s>]+)>?\s*(.*)$/);
+  if (!match) return { note: text.trim() };
+  return { source: match[1], note: match[2].trim() || undefined };
+}
+
+// Cells cite with GFM-style footnote markers, `ed25519[^nip01]`, defined
+// anywhere in the file as `[^nip01]: https://... optional note`.
+function attachFootnotes(lines: string[], tables: MarkdownTable[], problems: TableProblem[]): void {
+  const definitions = new Map<string, Citation>();
+  for (const line of lines) {
+    const match = line.match(footnoteDefinition);
+    if (match) definitions.set(match[1].toLowerCase(), parseCitation(match[2]));
+  }
+
+  for (const table of tables) {
+    table.citations = table.rows.map((row) =>
+      row.map((cell, index) => {
+        let citation: Citation | null = null;
+        row[index] = cell.replace(footnoteMarker, (marker, label: string) => {
+          const found = definitions.get(label.toLowerCase());
+          if (!found) {
+            problems.push({ line: table.line, message: `footnote ${marker} has no definition` });
+            return marker;
+          }
+          citation ??= found;
+          return "";
+        }).trim();
+        return citation;
+      })
+    );
+  }
+}
+
+/** Picks a table by heading name (case-insensitive), or the first one. */
+export function findTable(tables: MarkdownTable[], name?: string): MarkdownTable | null {
+  if (!name) return tables[0] ?? null;
+  const wanted = name.trim().toLowerCase();
+  return tables.find((table) => table.name?.toLowerCase() === wanted) ?? null;
+}
+
+// Unknown columns get a badge with their initials in place of a logo.
+function tableBadge(column: string): string {
+  const words = column.split(/\s+/).filter((word) => /\w/.test(word));
+  const initials = words.length > 1 ? words.slice(0, 2).map((word) => word[0]).join("") : column.slice(0, 1);
+  return `<span class="table-logo table-badge" aria-hidden="true">${escapeHtml(initials.toUpperCase())}</span>`;
+}
+
+/** A verdict stamped over one or more table columns, which it also grays out. */
+export interface TableStamp {
+  /** Header names of the columns, matched case-insensitively. */
+  columns: string[];
+  /** Inline Markdown; omit to only gray the columns out. */
+  text?: string;
+  color?: string;
+  /** Rotation in degrees; the stylesheet tilts stamps -8° by default. */
+  rotate?: number;
+  /** Build step that applies the stamp, or 0 to apply it from the start. */
+  step?: number;
+}
+
+/** Header names in `columns` that the table doesn't have. */
+export function unknownColumns(table: MarkdownTable, columns: string[]): string[] {
+  const names = new Set(table.header.map((name) => name.toLowerCase()));
+  return columns.filter((column) => !names.has(column.toLowerCase()));
+}
+
+// A stamp sits in the header cell at the middle of its columns, or on the
+// border between the middle two when it covers an even number of them.
+function stampAnchor(indices: number[]): { index: number; between: boolean } {
+  const sorted = [...indices].sort((a, b) => a - b);
+  const contiguous = sorted.every((index, i) => i === 0 || index === sorted[i - 1] + 1);
+  if (!contiguous) return { index: sorted[0], between: false };
+  return { index: sorted[(sorted.length - 1) >> 1], between: sorted.length % 2 === 0 };
+}
+
+function renderStamp(stamp: TableStamp, between: boolean): string {
+  const styles = [
+    ...(stamp.rotate !== undefined && Number.isFinite(stamp.rotate) ? [`--stamp-rotate: ${stamp.rotate}deg`] : []),
+    ...(stamp.color ? [`color: ${stamp.color}`, `border-color: ${stamp.color}`] : []),
+  ];
+  const style = styles.length ? ` style="${escapeHtml(styles.join("; "))}"` : "";
+  const step = stamp.step ? ` data-build="${stamp.step}"` : "";
+  return `<div class="stamp${between ? " stamp-between" : ""}"${step}${style}>${renderInline(stamp.text ?? "")}</div>`;
+}
+
+/**
+ * Renders a table. When `logos` has any entries, every column after the first
+ * (which labels the rows) gets its logo above the name, or a badge if it has
+ * none. `stamps` gray out their columns and put their text over them, either
+ * from the start or at their build step of the slide. Cited cells get the
+ * footnote number `cite` hands out.
+ */
+export function renderTable(
+  table: MarkdownTable,
+  logos: Record<string, TableLogo> = {},
+  stamps: TableStamp[] = [],
+  cite?: (citation: Citation) => number,
+): string {
+  const withLogos = Object.keys(logos).length > 0;
+  const columnIndex = new Map(table.header.map((name, index) => [name.toLowerCase(), index]));
+
+  // The earliest step that grays each column (0 is from the start), and the
+  // stamps anchored in each header cell.
+  const grayFrom = new Map<number, number>();
+  const anchored = new Map<number, string[]>();
+  for (const stamp of stamps) {
+    const indices = stamp.columns
+      .map((column) => columnIndex.get(column.toLowerCase()))
+      .filter((index): index is number => index !== undefined);
+    if (!indices.length) continue;
+    const step = stamp.step ?? 0;
+    for (const index of indices) grayFrom.set(index, Math.min(step, grayFrom.get(index) ?? step));
+    if (!stamp.text) continue;
+    const { index, between } = stampAnchor(indices);
+    anchored.set(index, [...(anchored.get(index) ?? []), renderStamp(stamp, between)]);
+  }
+
+  const cellAttributes = (index: number, header = false) => {
+    const align = table.align[index];
+    const step = grayFrom.get(index);
+    const classes = [
+      ...(step === 0 ? ["column-gray"] : []),
+      ...(header && anchored.has(index) ? ["stamp-anchor"] : []),
+    ];
+    return (classes.length ? ` class="${classes.join(" ")}"` : "") +
+      (align ? ` style="text-align: ${align}"` : "") +
+      (step ? ` data-build="${step}" data-build-class="column-gray"` : "");
+  };
+
+  const headerHtml = table.header
+    .map((c, index) => {
+      const stampHtml = anchored.get(index)?.join("") ?? "";
+      const attributes = `${cellAttributes(index, true)} data-column="${escapeHtml(c)}"`;
+      if (!withLogos || index === 0) {
+        return `<th${attributes}>${renderInline(c)}${stampHtml}</th>`;
+      }
+      const logo = logos[c];
+      const image = logo
+        ? `<img class="table-logo${logo.invert ? " logo-invert" : ""}" src="${escapeHtml(logo.src)}" alt="${escapeHtml(logo.alt)}" />`
+        : tableBadge(c);
+      return `
+          <th${attributes}>
+            <div class="table-head">
+              ${image}
+              <span>${renderInline(c)}</span>
+            </div>${stampHtml}
+          </th>
+        `;
+    })
+    .join("");
+  const marker = (row: number, column: number) => {
+    const citation = table.citations?.[row]?.[column];
+    if (!citation || !cite) return "";
+    const title = citation.note ?? citation.source ?? "";
+    return `<sup class="table-cite" title="${escapeHtml(title)}">${cite(citation)}</sup>`;
+  };
+  const bodyHtml = table.rows
+    .map((row, r) =>
+      `<tr>${row.map((c, index) => `<td${cellAttributes(index)}>${renderInline(c)}${marker(r, index)}</td>`).join("")}</tr>`
+    )
+    .join("");
+  return `<table><thead><tr>${headerHtml}</tr></thead><tbody>${bodyHtml}</tbody></table>`;
+}
+
+/** Options for `renderColumns`; they override the file's frontmatter. */
+export interface ColumnsOptions {
+  /** Columns per row on wide screens; defaults to one per section, up to 4. */
+  columns?: number;
+}
+
+interface ColumnSection {
+  title: string;
+  icon?: FrontmatterEntry;
+  body: string[];
+}
+
+const columnHeading = /^ {0,3}###[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const iconImage = /^(?:\/|\.{1,2}\/|https?:\/\/)|\.(?:png|jpe?g|gif|webp|svg)$/i;
+
+function renderColumnIcon(icon: FrontmatterEntry): string {
+  const alt = icon.options.get("alt") ?? "";
+  if (iconImage.test(icon.value)) {
+    return `<img class="column-icon" src="${escapeHtml(icon.value)}" alt="${escapeHtml(alt)}" />`;
+  }
+  const label = alt ? ` role="img" aria-label="${escapeHtml(alt)}"` : ` aria-hidden="true"`;
+  return `<span class="column-icon"${label}>${escapeHtml(icon.value)}</span>`;
+}
+
+/**
+ * Lays a Markdown file out as a grid with one column per `###` heading, each
+ * holding the Markdown below it. Anything above the first heading renders
+ * above the grid, and a file without `###` headings renders as plain Markdown.
+ * The frontmatter can set `columns: N` and give headings an icon, an emoji or
+ * an image path, under `icons:`:
+ *
+ *   ---
+ *   columns: 3
+ *   icons:
+ *     Risks: ⚠️ | alt=Warning
+ *     RIP: /icons/tombstone.svg
+ *   ---
+ *
+ * The grid drops to at most two columns on narrow screens and one on phones.
+ */
+export function renderColumns(markdown: string, options: ColumnsOptions = {}): string {
+  const lines = markdown.split(/\r?\n/);
+  const { fields, blocks, end } = parseFileFrontmatter(lines);
+  const icons = blocks.get("icons") ?? new Map<string, FrontmatterEntry>();
+
+  const intro: string[] = [];
+  const sections: ColumnSection[] = [];
+  let fence: string | null = null;
+  for (const line of lines.slice(end)) {
+    // `###` inside fenced code is content, not a new column.
+    const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+    if (fenceMatch && (!fence || fenceMatch[1].startsWith(fence))) fence = fence ? null : fenceMatch[1];
+    const heading = fence ? null : line.match(columnHeading);
+    if (heading) {
+      const title = heading[1].trim();
+      sections.push({ title, icon: icons.get(title), body: [] });
+    } else {
+      (sections.at(-1)?.body ?? intro).push(line);
+    }
+  }
+
+  const body = lines.slice(end).join("\n");
+  if (!sections.length) return `<div class="columns-fallback">${renderMarkdown(body)}</div>`;
+
+  const requested = options.columns ?? Number(fields.get("columns"));
+  const columns = Number.isInteger(requested) && requested > 0 ? requested : Math.min(sections.length, 4);
+  const items = sections.map((section) => {
+    const icon = section.icon ? renderColumnIcon(section.icon) : "";
+    return `
+      <section class="columns-item">
+        <h3>${icon}${renderInline(section.title)}</h3>
+        ${renderMarkdown(section.body.join("\n"))}
+      </section>`;
+  });
+  const introHtml = intro.some((line) => line.trim()) ? renderMarkdown(intro.join("\n")) : "";
+  return `${introHtml}
+    <div class="columns-grid" style="--columns: ${columns}; --columns-narrow: ${Math.min(columns, 2)}">${items.join("")}
+    </div>
+  `;
+}
@@ -0,0 +1,195 @@
+import assert from "node:assert/strict";
+import {
+  findTable,
+  parseCitation,
+  parseTables,
+  renderColumns,
+  renderInline,
+  renderMarkdown,
+  renderTable,
+  unknownColumns,
+} from "./markdown.ts";
+
+// Examples from the CommonMark spec, by number. Decks render with
+// raw HTML allowed, as the spec expects.
+const specExamples: [number, string, string][] = [
+  // Entity and numeric character references
+  [29, "&copy\n", "<p>&amp;copy</p>\n"],
+  [31, "<a href=\"&ouml;&ouml;.html\">\n", "<a href=\"&ouml;&ouml;.html\">\n"],
+  // Precedence
+  [42, "- `one\n- two`\n", "<ul>\n<li>`one</li>\n<li>two`</li>\n</ul>\n"],
+  // Thematic breaks
+  [43, "***\n---\n___\n", "<hr />\n<hr />\n<hr />\n"],
+  // ATX headings
+  [62, "# foo\n## foo\n### foo\n#### foo\n##### foo\n###### foo\n", "<h1>foo</h1>\n<h2>foo</h2>\n<h3>foo</h3>\n<h4>foo</h4>\n<h5>foo</h5>\n<h6>foo</h6>\n"],
+  [63, "####### foo\n", "<p>####### foo</p>\n"],
+  // Setext headings
+  [80, "Foo *bar*\n=========\n\nFoo *bar*\n---------\n", "<h1>Foo <em>bar</em></h1>\n<h2>Foo <em>bar</em></h2>\n"],
+  [81, "Foo *bar\nbaz*\n====\n", "<h1>Foo <em>bar\nbaz</em></h1>\n"],
+  // Indented code blocks
+  [107, "    a simple\n      indented code block\n", "<pre><code>a simple\n  indented code block\n</code></pre>\n"],
+  // Fenced code blocks
+  [119, "```\n<\n >\n```\n", "<pre><code>&lt;\n &gt;\n</code></pre>\n"],
+  [120, "~~~\n<\n >\n~~~\n", "<pre><code>&lt;\n &gt;\n</code></pre>\n"],
+  // Link reference definitions
+  [192, "[foo]: /url \"title\"\n\n[foo]\n", "<p><a href=\"/url\" title=\"title\">foo</a></p>\n"],
+  [193, "   [foo]: \n      /url  \n           'the title'  \n\n[foo]\n", "<p><a href=\"/url\" title=\"the title\">foo</a></p>\n"],
+  // Paragraphs
+  [219, "aaa\n\nbbb\n", "<p>aaa</p>\n<p>bbb</p>\n"],
+  // Block quotes
+  [228, "> # Foo\n> bar\n> baz\n", "<blockquote>\n<h1>Foo</h1>\n<p>bar\nbaz</p>\n</blockquote>\n"],
+  [229, "># Foo\n>bar\n> baz\n", "<blockquote>\n<h1>Foo</h1>\n<p>bar\nbaz</p>\n</blockquote>\n"],
+  // List items
+  [253, "A paragraph\nwith two lines.\n\n    indented code\n\n> A block quote.\n", "<p>A paragraph\nwith two lines.</p>\n<pre><code>indented code\n</code></pre>\n<blockquote>\n<p>A block quote.</p>\n</blockquote>\n"],
+  [254, "1.  A paragraph\n    with two lines.\n\n        indented code\n\n    > A block quote.\n", "<ol>\n<li>\n<p>A paragraph\nwith two lines.</p>\n<pre><code>indented code\n</code></pre>\n<blockquote>\n<p>A block quote.</p>\n</blockquote>\n</li>\n</ol>\n"],
+  // Lists
+  [301, "- foo\n- bar\n+ baz\n", "<ul>\n<li>foo</li>\n<li>bar</li>\n</ul>\n<ul>\n<li>baz</li>\n</ul>\n"],
+  [302, "1. foo\n2. bar\n3) baz\n", "<ol>\n<li>foo</li>\n<li>bar</li>\n</ol>\n<ol start=\"3\">\n<li>baz</li>\n</ol>\n"],
+  // Code spans
+  [328, "`foo`\n", "<p><code>foo</code></p>\n"],
+  [329, "`` foo ` bar ``\n", "<p><code>foo ` bar</code></p>\n"],
+  // Emphasis and strong emphasis
+  [350, "*foo bar*\n", "<p><em>foo bar</em></p>\n"],
+  [351, "a * foo bar*\n", "<p>a * foo bar*</p>\n"],
+  // Links
+  [482, "[link](/uri \"title\")\n", "<p><a href=\"/uri\" title=\"title\">link</a></p>\n"],
+  [483, "[link](/uri)\n", "<p><a href=\"/uri\">link</a></p>\n"],
+  // Images
+  [572, "![foo](/url \"title\")\n", "<p><img src=\"/url\" alt=\"foo\" title=\"title\" /></p>\n"],
+  // Autolinks
+  [594, "<http://foo.bar.baz>\n", "<p><a href=\"http://foo.bar.baz\">http://foo.bar.baz</a></p>\n"],
+  // Raw HTML
+  [613, "<a><bab><c2c>\n", "<p><a><bab><c2c></p>\n"],
+  // Hard line breaks
+  [633, "foo  \nbaz\n", "<p>foo<br />\nbaz</p>\n"],
+  // Soft line breaks
+  [648, "foo\nbaz\n", "<p>foo\nbaz</p>\n"],
+  // Textual content
+  [651, "Foo χρῆν\n", "<p>Foo χρῆν</p>\n"],
+];
+
+Deno.test("renders CommonMark spec examples", () => {
+  for (const [example, markdown, html] of specExamples) {
+    assert.equal(renderMarkdown(markdown, { allowHtml: true }), html, `example ${example}`);
+  }
+});
+
+Deno.test("escapes raw HTML unless it is allowed", () => {
+  assert.equal(renderMarkdown("<b>hi</b>\n"), "<p>&lt;b&gt;hi&lt;/b&gt;</p>\n");
+  assert.equal(renderMarkdown("<b>hi</b>\n", { allowHtml: true }), "<p><b>hi</b></p>\n");
+});
+
+Deno.test("drops javascript: URLs even with HTML allowed", () => {
+  assert.equal(
+    renderMarkdown("[x](javascript:alert(1)) ![y](JavaScript:foo)"),
+    `<p><a href="#">x</a> <img src="#" alt="y" /></p>\n`,
+  );
+  assert.equal(renderMarkdown("[x](javascript:alert(1))", { allowHtml: true }), `<p><a href="#">x</a></p>\n`);
+});
+
+Deno.test("renderInline leaves out the paragraph", () => {
+  assert.equal(renderInline("  **bold** `code` "), "<strong>bold</strong> <code>code</code>");
+});
+
+const tableFile = `---
+logos:
+  SSB: /hermies.png | alt=Hermies
+  Nostr: /nostr.png | invert
+---
+## Keys
+
+| * | SSB | Nostr |
+| :--- | :---: | ---: |
+| Keys | ed25519[^ssb] | a \\| b |
+| Short |
+| Long | 1 | 2 | 3 |
+
+[^ssb]: https://ssbc.github.io/ Protocol guide
+
+## Other
+
+| a | b |
+| - | - |
+| c | d[^nope] |
+`;
+
+Deno.test("parseTables reads alignment, escaped pipes, logos and footnotes", () => {
+  const { tables, logos } = parseTables(tableFile);
+  assert.deepEqual(tables.map((table) => table.name), ["Keys", "Other"]);
+  const [keys] = tables;
+  assert.deepEqual(keys.header, ["*", "SSB", "Nostr"]);
+  assert.deepEqual(keys.align, ["left", "center", "right"]);
+  assert.deepEqual(keys.rows, [["Keys", "ed25519", "a | b"], ["Short", "", ""], ["Long", "1", "2"]]);
+  assert.deepEqual(keys.citations?.[0][1], { source: "https://ssbc.github.io/", note: "Protocol guide" });
+  assert.deepEqual(logos, {
+    SSB: { src: "/hermies.png", alt: "Hermies", invert: false },
+    Nostr: { src: "/nostr.png", alt: "Nostr logo", invert: true },
+  });
+});
+
+Deno.test("parseTables reports ragged rows and unknown footnotes by line", () => {
+  assert.deepEqual(parseTables(tableFile).problems, [
+    { line: 11, message: "row has 1 cell, expected 3; padded with empty cells" },
+    { line: 12, message: "row has 4 cells, expected 3; extra cells dropped" },
+    { line: 18, message: "footnote [^nope] has no definition" },
+  ]);
+});
+
+Deno.test("findTable picks by heading, ignoring case", () => {
+  const { tables } = parseTables(tableFile);
+  assert.equal(findTable(tables)?.name, "Keys");
+  assert.equal(findTable(tables, "other")?.name, "Other");
+  assert.equal(findTable(tables, "missing"), null);
+  assert.deepEqual(unknownColumns(tables[0], ["ssb", "Farcaster"]), ["Farcaster"]);
+});
+
+Deno.test("parseCitation splits a leading URL from the note", () => {
+  assert.deepEqual(parseCitation("<https://example.com/spec> Section 3"), {
+    source: "https://example.com/spec",
+    note: "Section 3",
+  });
+  assert.deepEqual(parseCitation("https://example.com/"), { source: "https://example.com/", note: undefined });
+  assert.deepEqual(parseCitation(" Just a note "), { note: "Just a note" });
+});
+
+Deno.test("renderTable grays and stamps columns at their build step", () => {
+  const { tables, logos } = parseTables(tableFile);
+  const html = renderTable(tables[0], logos, [{ columns: ["SSB", "Nostr"], text: "GONE", step: 1 }], () => 7);
+  assert.match(html, /<img class="table-logo logo-invert" src="\/nostr.png" alt="Nostr logo" \/>/);
+  assert.match(html, /<div class="stamp stamp-between" data-build="1">GONE<\/div>/);
+  assert.match(html, /<td style="text-align: center" data-build="1" data-build-class="column-gray">ed25519<sup/);
+  assert.match(html, /<sup class="table-cite" title="Protocol guide">7<\/sup>/);
+});
+
+Deno.test("renderColumns makes a column per ### heading", () => {
+  const html = renderColumns(`---
+columns: 3
+icons:
+  Risks: ⚠️ | alt=Warning
+  RIP: /icons/tombstone.svg
+---
+Intro
+
+### Risks
+- a
+
+\`\`\`
+### not a heading
+\`\`\`
+### RIP
+b
+`);
+  assert.match(html, /^<p>Intro<\/p>/);
+  assert.match(html, /style="--columns: 3; --columns-narrow: 2"/);
+  assert.equal(html.match(/<section class="columns-item">/g)?.length, 2);
+  assert.match(html, /<span class="column-icon" role="img" aria-label="Warning">⚠️<\/span>Risks<\/h3>/);
+  assert.match(html, /<img class="column-icon" src="\/icons\/tombstone.svg" alt="" \/>RIP<\/h3>/);
+  assert.match(html, /<code>### not a heading\n<\/code>/);
+});
+
+Deno.test("renderColumns falls back to plain Markdown without ### headings", () => {
+  assert.equal(
+    renderColumns("# Plain\n\ntext\n", { columns: 2 }),
+    `<div class="columns-fallback"><h1>Plain</h1>\n<p>text</p>\n</div>`,
+  );
+});
@@ -0,0 +1,34 @@
+/** The content type served for a file, by its extension. */
+export function contentType(path: string): string {
+  const ext = path.toLowerCase().split(".").pop() || "";
+  switch (ext) {
+    case "png":
+      return "image/png";
+    case "jpg":
+    case "jpeg":
+      return "image/jpeg";
+    case "gif":
+      return "image/gif";
+    case "webp":
+      return "image/webp";
+    case "svg":
+      return "image/svg+xml";
+    case "ico":
+      return "image/x-icon";
+    case "woff2":
+      return "font/woff2";
+    case "woff":
+      return "font/woff";
+    case "js":
+      return "text/javascript; charset=utf-8";
+    case "css":
+      return "text/css; charset=utf-8";
+    case "html":
+      return "text/html; charset=utf-8";
+    case "md":
+    case "markdown":
+      return "text/markdown; charset=utf-8";
+    default:
+      return "application/octet-stream";
+  }
+}
@@ -0,0 +1,144 @@
+import { themeStyle } from "./theme.ts";
+
+/**
+ * Renders the ANProto playground at `/playground`: generate an ed25519
+ * keypair, sign messages that chain through `previous`, and verify pasted
+ * ones. Everything runs in the browser with WebCrypto, and the page makes no
+ * requests beyond its own scripts, so it works with no network at all.
+ */
+export function renderPlayground(): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>ANProto playground</title>
+  <style>
+${themeStyle}
+
+    body {
+      margin: 0;
+      font-family: "Inter", "Segoe UI", sans-serif;
+      background: var(--bg);
+      color: var(--ink);
+      padding: 14px;
+      font-size: 14px;
+    }
+
+    h1 { margin: 0 0 4px; font-size: 1.2rem; }
+    h2 { margin: 0 0 8px; font-size: 1rem; color: var(--accent); }
+    p { margin: 0 0 8px; color: var(--muted); }
+
+    .columns {
+      display: grid;
+      grid-template-columns: repeat(2, minmax(0, 1fr));
+      gap: 12px;
+      margin-top: 10px;
+    }
+
+    section {
+      padding: 12px;
+      border-radius: 14px;
+      background: var(--panel);
+      border: 1px solid rgba(49, 240, 255, 0.2);
+      min-width: 0;
+    }
+
+    label { display: block; margin: 8px 0 4px; color: var(--muted); font-size: 0.85rem; }
+
+    input, textarea {
+      width: 100%;
+      font: inherit;
+      color: var(--ink);
+      background: var(--bg);
+      border: 1px solid rgba(49, 240, 255, 0.3);
+      border-radius: 8px;
+      padding: 6px 8px;
+    }
+
+    input.mono, textarea.mono, pre, code { font-family: ui-monospace, "SFMono-Regular", Menlo, monospace; font-size: 0.8rem; }
+    textarea { resize: vertical; }
+
+    button {
+      font: inherit;
+      color: var(--ink);
+      background: rgba(49, 240, 255, 0.14);
+      border: 1px solid rgba(49, 240, 255, 0.5);
+      border-radius: 999px;
+      padding: 5px 14px;
+      margin-top: 8px;
+      cursor: pointer;
+    }
+
+    button:disabled { opacity: 0.4; cursor: default; }
+
+    pre {
+      margin: 8px 0 0;
+      padding: 8px;
+      border-radius: 8px;
+      background: var(--bg);
+      white-space: pre-wrap;
+      overflow-wrap: anywhere;
+      max-height: 160px;
+      overflow: auto;
+    }
+
+    code { overflow-wrap: anywhere; }
+
+    dl {
+      display: grid;
+      grid-template-columns: auto minmax(0, 1fr);
+      gap: 2px 10px;
+      margin: 8px 0;
+      font-size: 0.8rem;
+    }
+
+    dt { color: var(--muted); }
+    dd { margin: 0; font-family: ui-monospace, "SFMono-Regular", Menlo, monospace; overflow-wrap: anywhere; }
+
+    .badge { display: inline-block; margin: 4px 0 0; padding: 2px 10px; border-radius: 999px; font-weight: 600; }
+    .badge.valid { color: var(--ok); background: rgba(94, 224, 138, 0.12); }
+    .badge.invalid { color: var(--warn); background: rgba(255, 92, 187, 0.12); }
+    .status.error { color: var(--warn); }
+
+    @media (max-width: 720px) {
+      .columns { grid-template-columns: 1fr; }
+    }
+  </style>
+</head>
+<body>
+  <h1>ANProto playground</h1>
+  <p>Keys are made and messages signed right here in your browser. Nothing is sent anywhere.</p>
+  <p class="status" id="support"></p>
+
+  <div class="columns">
+    <section>
+      <h2>Sign</h2>
+      <button type="button" id="generate">Generate keypair</button>
+      <label for="pubkey">Public key</label>
+      <input class="mono" id="pubkey" readonly placeholder="Generate a keypair first" />
+
+      <label for="name">name</label>
+      <input id="name" autocomplete="off" placeholder="ev" />
+      <label for="previous">previous <span id="previousHint"></span></label>
+      <input class="mono" id="previous" autocomplete="off" placeholder="Hash of your last message; empty for the first" />
+      <label for="content">Message</label>
+      <textarea id="content" rows="2">kayak meetup at 6pm</textarea>
+      <button type="button" id="sign" disabled>Sign</button>
+      <pre id="signed" hidden></pre>
+      <button type="button" id="copy" hidden>Copy to verify</button>
+    </section>
+
+    <section>
+      <h2>Verify</h2>
+      <label for="pasted">Paste a signed message, a blank line, then its content</label>
+      <textarea class="mono" id="pasted" rows="6"></textarea>
+      <button type="button" id="verify">Verify</button>
+      <div id="result"></div>
+    </section>
+  </div>
+
+  <script type="module" src="/client/playground.js"></script>
+</body>
+</html>`;
+}
@@ -0,0 +1,187 @@
+import { type Deck, renderNotes, slideTitle, visibleSlides } from "./deck.ts";
+import type { Session } from "./live.ts";
+import { themeStyle } from "./theme.ts";
+import { escapeHtml } from "./util.ts";
+
+export interface PresenterSlide {
+  title: string;
+  notes: string;
+  builds: number;
+}
+
+export async function presenterSlides(deck: Deck): Promise<PresenterSlide[]> {
+  const slides: PresenterSlide[] = [];
+  for (const [index, slide] of visibleSlides(deck).entries()) {
+    slides.push({ title: slideTitle(slide, index), notes: await renderNotes(slide), builds: slide.builds.length });
+  }
+  return slides;
+}
+
+// JSON embedded in a <script> block must not be able to close it early.
+function scriptJson(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, "\\u003c");
+}
+
+/**
+ * Renders the presenter view for a deck: current and next slide previews
+ * (the audience deck in `?embed` mode), speaker notes and a talk timer.
+ * The session's presenter key lets the page drive the live session, and its
+ * pairing code is shown for phone remotes, so the server only sends this page
+ * to requests carrying its presenter token.
+ */
+export async function renderPresenter(deck: Deck, session: Session): Promise<string> {
+  const slug = deck.meta.slug ?? "";
+  const data = {
+    slug,
+    deckUrl: `/deck/${slug}`,
+    presenterKey: session.presenterKey,
+    duration: deck.meta.duration ?? null,
+    slides: await presenterSlides(deck),
+  };
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Presenter · ${escapeHtml(deck.meta.title)}</title>
+  <style>
+${themeStyle}
+
+    body {
+      margin: 0;
+      min-height: 100vh;
+      font-family: "Inter", "Segoe UI", sans-serif;
+      background: var(--bg);
+      color: var(--ink);
+      display: grid;
+      grid-template-columns: minmax(0, 1.6fr) minmax(320px, 1fr);
+      grid-template-rows: auto minmax(0, 1fr);
+      gap: 16px;
+      padding: 16px;
+      height: 100vh;
+    }
+
+    header {
+      grid-column: 1 / -1;
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      flex-wrap: wrap;
+    }
+
+    header h1 {
+      font-size: 1rem;
+      font-weight: 600;
+      margin: 0 auto 0 0;
+      color: var(--muted);
+    }
+
+    button {
+      font: inherit;
+      color: var(--ink);
+      background: var(--panel);
+      border: 1px solid rgba(49, 240, 255, 0.35);
+      border-radius: 999px;
+      padding: 6px 14px;
+      cursor: pointer;
+    }
+
+    .counter { font-variant-numeric: tabular-nums; color: var(--muted); }
+
+    .pairing { color: var(--muted); }
+    .pairing strong { color: var(--accent); letter-spacing: 0.2em; }
+
+    .timer {
+      font-variant-numeric: tabular-nums;
+      font-size: 1.4rem;
+      font-weight: 600;
+    }
+
+    .timer .remaining { color: var(--accent); margin-left: 10px; }
+    .timer .remaining.over { color: var(--warn); }
+
+    .stage, .side { display: grid; gap: 12px; min-height: 0; }
+    .side { grid-template-rows: auto auto minmax(0, 1fr); }
+
+    .label {
+      font-size: 0.8rem;
+      text-transform: uppercase;
+      letter-spacing: 0.16em;
+      color: var(--muted);
+    }
+
+    .preview {
+      position: relative;
+      width: 100%;
+      aspect-ratio: 16 / 9;
+      overflow: hidden;
+      border-radius: 12px;
+      border: 1px solid rgba(255, 255, 255, 0.12);
+      background: #000;
+    }
+
+    /* Previews render the deck at a fixed size and scale it down to fit. */
+    .preview iframe {
+      position: absolute;
+      top: 0;
+      left: 0;
+      width: 1280px;
+      height: 720px;
+      border: 0;
+      transform-origin: 0 0;
+      pointer-events: none;
+    }
+
+    .preview.done::after {
+      content: "End of deck";
+      position: absolute;
+      inset: 0;
+      display: grid;
+      place-items: center;
+      background: #000;
+      color: var(--muted);
+    }
+
+    .notes {
+      overflow: auto;
+      padding: 16px 18px;
+      border-radius: 12px;
+      background: var(--panel);
+      font-size: 1.25rem;
+      line-height: 1.5;
+    }
+
+    .notes p, .notes li { color: var(--ink); }
+    .notes .empty { color: var(--muted); font-style: italic; }
+  </style>
+</head>
+<body>
+  <header>
+    <h1>${escapeHtml(deck.meta.title)}</h1>
+    <span class="counter" id="counter"></span>
+    <button type="button" id="prev">Prev</button>
+    <button type="button" id="next">Next</button>
+    <span class="timer"><span id="elapsed">0:00</span><span class="remaining" id="remaining"></span></span>
+    <button type="button" id="timerToggle">Start</button>
+    <button type="button" id="timerReset">Reset</button>
+    <button type="button" id="openAudience">Open audience window</button>
+    <span class="pairing">Remote: <a href="/remote">/remote</a> code <strong>${session.pairingCode}</strong></span>
+  </header>
+
+  <section class="stage">
+    <span class="label">Now · <span id="currentTitle"></span></span>
+    <div class="preview"><iframe id="currentFrame" title="Current slide" tabindex="-1"></iframe></div>
+  </section>
+
+  <aside class="side">
+    <span class="label">Next · <span id="nextTitle"></span></span>
+    <div class="preview" id="nextPreview"><iframe id="nextFrame" title="Next slide" tabindex="-1"></iframe></div>
+    <div class="notes" id="notes"></div>
+  </aside>
+
+  <script type="application/json" id="presenter-data">${scriptJson(data)}</script>
+  <script src="/client/presenter.js"></script>
+</body>
+</html>`;
+}
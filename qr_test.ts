@@ -0,0 +1,102 @@
+import assert from "node:assert/strict";
+import { encodeQr, type ErrorCorrection, isErrorCorrection, type QrCode, renderQrSvg } from "./qr.ts";
+import { sha256, toHex } from "./util.ts";
+
+// SHA-256 of the module grid (one line of 0/1 per row) that npm `qrcode`
+// draws for the same text, level and mask.
+const modulesHash = async (qr: QrCode) =>
+  toHex(await sha256(qr.modules.map((row) => row.map((dark) => (dark ? "1" : "0")).join("") + "\n").join("")));
+
+const url = "https://wiredove.net/";
+const expected: Record<ErrorCorrection, string[]> = {
+  L: [
+    "60550dc1865aaba47af69ae4b44f238414069982da7a5285dfa1b60203e762df",
+    "d8d1c4505526a22eeda3bf6398f8a8286c9af9a49910d2946f78a3d9b639e724",
+    "c22a61ad2b25b39128abe1d768ecca2d65e8cdff124db747d271f812f10093d4",
+    "663ec5e98202d7f2f3d6bdbd61348a47a25a8113313554d5c8dbfc091b245854",
+    "a329f0317f03536b184fbc17251148ffb9d8877b04a8faa8941d1d51c296c3fe",
+    "12ef7d73da2d245151ddc656083bccb63f6e95da4095b24fc2b9e97f2a9142e7",
+    "2a696842d42593b8b5a8d1e73a3d53b98383202ae07575192f5c42ed7ac60f35",
+    "cd8c8f208faa5616027ae9d2cc7a6c47ffd0df419caece095316280f803daf7f",
+  ],
+  M: [
+    "3d838722bc38a37236f287739c2b270c117bcef6bf68e5689a0e077116b47b64",
+    "0df1216cfb62b954f105d48c0ffe3339e04c6a44deeb1e6d8add52d878879e82",
+    "550b3e14b3b5da4a00674b78193d3aadb11a6af120ea8c4e413458d875f2082e",
+    "e30c77d8702e08748af2efa1572238fdf893e2b6bec03047223e96a90a55ec61",
+    "9ff11f3790cf239968abf8bccc6c09a5e67c3b58bb2922ec8b2df22fae2da983",
+    "2e4492c86afb59b29ea19383a47ec363c6a099ba4c0a2aab731a4920ebaec9e6",
+    "455a1b38f08e8b78524fc9aa6912b369d576a94f171240f4507795faecdc4dab",
+    "894293b279a345cb899536620bf425c5e46003849abc317c6cb4758f5d1799d8",
+  ],
+  Q: [
+    "ca5d62429fe80a94207d792d2f30794e3a17bbed1e9083b020c53dabf1d7ae8e",
+    "347ca8a315fe336cb0adfb09ef4bb7ed034c50a65d1b60e9848201abc60c8898",
+    "db3b31061aa69eba392748a998e17d552c21a397556b82e422479f732e3001ad",
+    "35c30c5c4dd99df5dbf0d79aba65e604c9b4a4e250c91ef122fb0178bc8d1a7a",
+    "10e5d5c8a092af87ce0a44fbc083b80057137ddedbbcc384a5d1a4151b626b6e",
+    "c747c22c22d4e0f72c2d579a8a8ca4531c7a4534f966afe444a7c1958c343f1f",
+    "0be1eef6e69939cbc01013a3e5ddd86ef5fded65162b0c654160f5b6517fb78d",
+    "266b7fa6d8ff58acdd5f34e5078a82fc3d50edfef2e105cca689a249c429f0c5",
+  ],
+  H: [
+    "307d2f90753f1bfa633652bffa36a89276284b22820d6919c5d27d8fe561d655",
+    "3c98b038f18744a03bfbd87c77b1c44697caeb1a03aa251fdd610b5e4a4435fb",
+    "dc26dab4bed8d0020b7f0aeb98ee43206d52910bdaa9da35a438477c78bb9654",
+    "257ce87616181942998bb50c5b6c5410e7bb0f0e4f1d3bfa7fa6f5a3c95dae18",
+    "c8bfeed8ffef05c98bf74b934c0923cf084e266982a33716ab2fc034ee18644d",
+    "a08d1e95e58741110e3dc6539f743a2e4cf355f6790ba46ba6b47403e6942bab",
+    "9669abb45549317e4e0bb924a53de0a1fc5d00c5c28923da48c367b4e2b55b5a",
+    "2e6ebfe9fade1f3811d31a890ea51c6d0724978da4d0a6dfcf4ec65b3c317961",
+  ],
+};
+
+for (const ecc of ["L", "M", "Q", "H"] as const) {
+  Deno.test(`every mask at level ${ecc} matches the qrcode package`, async () => {
+    for (const [mask, hash] of expected[ecc].entries()) {
+      const qr = encodeQr(url, ecc, mask);
+      assert.equal(qr.version, ecc === "L" || ecc === "M" ? 2 : 3);
+      assert.equal(await modulesHash(qr), hash, `mask ${mask}`);
+    }
+  });
+}
+
+// qrcode only counts finder-like runs that fit inside the symbol, so on some
+// larger codes the two pick different (equally valid) masks.
+Deno.test("without a mask the lowest penalty wins", async () => {
+  assert.equal(await modulesHash(encodeQr(url)), expected.M[6]);
+  assert.equal(
+    await modulesHash(encodeQr("ANProto ✓ ed25519", "Q")),
+    "0fbb544f796a93b0ca2a63723f9ae96f80b6a9eb094f4c96870378edd37d50a8",
+  );
+});
+
+Deno.test("longer text picks a larger version", async () => {
+  const medium = encodeQr("x".repeat(300), "L", 0);
+  assert.equal(medium.version, 11);
+  assert.equal(medium.size, 61);
+  assert.equal(await modulesHash(medium), "18c216fab99d2f54d2f66763839ac4560b07295543a0c327cead520b11c289ec");
+
+  const large = encodeQr("x".repeat(1200), "H", 0);
+  assert.equal(large.version, 39);
+  assert.equal(await modulesHash(large), "81bc6d13e03d68fff9adb5929dd1cbfe64f7c129cf100162dc554d139af86a46");
+});
+
+Deno.test("text too long for version 40 is a RangeError", () => {
+  assert.throws(() => encodeQr("x".repeat(1300), "H"), RangeError);
+});
+
+Deno.test("isErrorCorrection accepts only L, M, Q and H", () => {
+  assert.ok(["L", "M", "Q", "H"].every(isErrorCorrection));
+  assert.ok(!isErrorCorrection("m"));
+  assert.ok(!isErrorCorrection(""));
+});
+
+Deno.test("renderQrSvg draws the modules inside the quiet zone", () => {
+  const svg = renderQrSvg(url, { size: 200, margin: 2, className: "qr-code", label: `QR code for "${url}"` });
+  assert.match(svg, /^<svg xmlns="http:\/\/www\.w3\.org\/2000\/svg" class="qr-code" role="img" /);
+  assert.match(svg, /aria-label="QR code for &quot;https:\/\/wiredove\.net\/&quot;"/);
+  assert.match(svg, /width="200" height="200" viewBox="0 0 29 29"/);
+  // The top-left finder pattern starts at the margin.
+  assert.match(svg, /<path d="M2,2h1v1h-1z/);
+});
@@ -0,0 +1,117 @@
+import { parseDeckMeta } from "./deck.ts";
+import { escapeHtml } from "./util.ts";
+
+export interface DeckEntry {
+  slug: string;
+  title: string;
+  event?: string;
+  date?: string;
+  aliases: string[];
+  path: string;
+}
+
+/**
+ * Lists every `*.md` deck in `dir`. A deck's slug comes from its frontmatter,
+ * falling back to the file name, and entries are sorted newest first.
+ */
+export async function loadRegistry(dir: string): Promise<DeckEntry[]> {
+  const entries: DeckEntry[] = [];
+  try {
+    for await (const file of Deno.readDir(dir)) {
+      if (!file.isFile || !file.name.endsWith(".md")) continue;
+      const path = `${dir}/${file.name}`;
+      const meta = parseDeckMeta(await Deno.readTextFile(path));
+      entries.push({
+        slug: meta.slug ?? file.name.replace(/\.md$/, ""),
+        title: meta.title,
+        event: meta.event,
+        date: meta.date,
+        aliases: meta.aliases,
+        path,
+      });
+    }
+  } catch {
+    return [];
+  }
+
+  return entries.sort((a, b) => (b.date ?? "").localeCompare(a.date ?? "") || a.slug.localeCompare(b.slug));
+}
+
+export function findDeck(entries: DeckEntry[], name: string): DeckEntry | undefined {
+  return entries.find((entry) => entry.slug === name) ??
+    entries.find((entry) => entry.aliases.includes(name));
+}
+
+/** Styles shared by the deck list and the snapshot archive. */
+export const listPageStyle = `:root { color-scheme: dark; }
+body {
+  margin: 0;
+  min-height: 100vh;
+  font-family: "Inter", "Segoe UI", sans-serif;
+  color: #f4fbff;
+  background: linear-gradient(145deg, #01040a, #020b16);
+  display: flex;
+  justify-content: center;
+  padding: 48px 16px;
+}
+main { width: min(760px, 92vw); }
+ul { list-style: none; padding: 0; margin: 0; display: grid; gap: 16px; }
+li {
+  padding: 18px 20px;
+  border-radius: 18px;
+  background: #0b111d;
+  border: 1px solid rgba(49, 240, 255, 0.35);
+}
+.title { font-size: 1.3rem; font-weight: 600; color: #31f0ff; text-decoration: none; }
+.badge {
+  margin-left: 8px;
+  padding: 2px 10px;
+  border-radius: 999px;
+  font-size: 0.75rem;
+  text-transform: uppercase;
+  letter-spacing: 0.12em;
+  color: #ff5cbb;
+  border: 1px solid rgba(255, 92, 187, 0.45);
+}
+p { margin: 8px 0 0; color: #a8bad0; }
+.aliases a { color: #a8bad0; }`;
+
+/** The `/decks` page. `archive` links to the snapshots of past events. */
+export function renderDeckIndex(entries: DeckEntry[], defaultSlug: string, archive = false): string {
+  const items = entries
+    .map((entry) => {
+      const details = [entry.event, entry.date].filter((d): d is string => Boolean(d)).map(escapeHtml).join(" · ");
+      const aliases = entry.aliases.length
+        ? `<p class="aliases">Also at ${entry.aliases.map((a) => `<a href="/deck/${escapeHtml(a)}">/deck/${escapeHtml(a)}</a>`).join(", ")}</p>`
+        : "";
+      const badge = entry.slug === defaultSlug ? ` <span class="badge">default</span>` : "";
+      return `
+        <li>
+          <a class="title" href="/deck/${escapeHtml(entry.slug)}">${escapeHtml(entry.title)}</a>${badge}
+          ${details ? `<p>${details}</p>` : ""}
+          ${aliases}
+          <p class="aliases"><a href="/deck/${escapeHtml(entry.slug)}?print">Printable handout</a></p>
+        </li>
+      `;
+    })
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Decks</title>
+  <style>
+${listPageStyle}
+  </style>
+</head>
+<body>
+  <main>
+    <h1>Decks</h1>
+    ${archive ? `<p class="aliases"><a href="/archive">Snapshots from past events</a></p>` : ""}
+    <ul>${items}</ul>
+  </main>
+</body>
+</html>`;
+}
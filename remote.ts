@@ -0,0 +1,113 @@
+import { themeStyle } from "./theme.ts";
+
+/**
+ * Renders the phone remote: a pairing form for the code shown on the
+ * presenter view, then big previous/next buttons with the slide's notes.
+ */
+export function renderRemote(): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1" />
+  <title>Deck remote</title>
+  <style>
+${themeStyle}
+
+    body {
+      margin: 0;
+      min-height: 100vh;
+      font-family: "Inter", "Segoe UI", sans-serif;
+      background: var(--bg);
+      color: var(--ink);
+      padding: 16px;
+      display: flex;
+      flex-direction: column;
+      gap: 14px;
+      -webkit-user-select: none;
+      user-select: none;
+    }
+
+    form { display: grid; gap: 12px; margin-top: 20vh; }
+    label { color: var(--muted); }
+
+    input {
+      font: inherit;
+      font-size: 2rem;
+      letter-spacing: 0.3em;
+      text-transform: uppercase;
+      text-align: center;
+      padding: 12px;
+      border-radius: 14px;
+      border: 1px solid rgba(49, 240, 255, 0.4);
+      background: var(--panel);
+      color: var(--ink);
+    }
+
+    button {
+      font: inherit;
+      color: var(--ink);
+      background: var(--panel);
+      border: 1px solid rgba(49, 240, 255, 0.4);
+      border-radius: 18px;
+      padding: 14px;
+      cursor: pointer;
+      touch-action: manipulation;
+    }
+
+    .status { color: var(--muted); font-size: 0.9rem; }
+    .status.error { color: var(--warn); }
+
+    .controls {
+      display: grid;
+      grid-template-columns: 1fr 2fr;
+      gap: 12px;
+    }
+
+    .controls button {
+      min-height: 28vh;
+      font-size: 2.4rem;
+      font-weight: 700;
+    }
+
+    .controls .next { background: rgba(49, 240, 255, 0.16); }
+
+    .title { font-size: 1.4rem; font-weight: 600; margin: 0; }
+    .counter { color: var(--muted); font-variant-numeric: tabular-nums; }
+
+    .notes {
+      padding: 14px 16px;
+      border-radius: 14px;
+      background: var(--panel);
+      font-size: 1.1rem;
+      line-height: 1.5;
+      overflow: auto;
+    }
+
+    .notes .empty { color: var(--muted); font-style: italic; }
+  </style>
+</head>
+<body>
+  <form id="pairForm">
+    <label for="code">Pairing code from the presenter view</label>
+    <input id="code" name="code" autocomplete="off" autocapitalize="characters" maxlength="5" required />
+    <button type="submit">Pair</button>
+    <p class="status" id="pairStatus"></p>
+  </form>
+
+  <div id="controlsView" hidden>
+    <p class="status" id="deckTitle"></p>
+    <div class="controls">
+      <button type="button" id="prev" aria-label="Previous slide">‹</button>
+      <button type="button" class="next" id="next" aria-label="Next slide">›</button>
+    </div>
+    <p class="counter" id="counter"></p>
+    <h1 class="title" id="title"></h1>
+    <div class="notes" id="notes"></div>
+    <p class="status" id="status"></p>
+  </div>
+
+  <script src="/client/remote.js"></script>
+</body>
+</html>`;
+}
@@ -0,0 +1,167 @@
+// Event snapshots: `deno run -A snapshot.ts anproto --event="Web 3 Weekends"
+// --date=2026-02-27` freezes a deck as it is right now into one
+// self-contained HTML file in snapshots/, named after the SHA-256 of its bytes.
+// The server serves it at `/archive/<hash>` and lists every snapshot at
+// `/archive`, so later edits to the live deck never change what the people at
+// that talk can go back to.
+import { renderSingleFile } from "./export.ts";
+import { escapeHtml, flag, sha256, toHex } from "./util.ts";
+import { findDeck, listPageStyle, loadRegistry } from "./registry.ts";
+
+export interface Snapshot {
+  /** SHA-256 of the page in hex: its file name and its URL. */
+  hash: string;
+  slug: string;
+  title: string;
+  event?: string;
+  date?: string;
+  /** When the snapshot was taken, as an ISO timestamp. */
+  created: string;
+}
+
+const manifestName = "index.json";
+
+// Links may shorten a hash to a prefix this long, as long as it is unique.
+const minPrefix = 12;
+
+/** Lists the snapshots recorded in `dir`, most recent event first. */
+export async function loadSnapshots(dir: string): Promise<Snapshot[]> {
+  try {
+    const snapshots: Snapshot[] = JSON.parse(await Deno.readTextFile(`${dir}/${manifestName}`));
+    return snapshots.sort((a, b) =>
+      (b.date ?? b.created).localeCompare(a.date ?? a.created) || b.created.localeCompare(a.created)
+    );
+  } catch {
+    return [];
+  }
+}
+
+/** Finds a snapshot by its hash or by a unique prefix of it. */
+export function findSnapshot(snapshots: Snapshot[], id: string): Snapshot | undefined {
+  const prefix = id.toLowerCase();
+  if (!/^[0-9a-f]+$/.test(prefix) || prefix.length < minPrefix) return undefined;
+  // One page can be recorded for several events; the prefix must name one page.
+  const matches = snapshots.filter((snapshot) => snapshot.hash.startsWith(prefix));
+  return matches.every((snapshot) => snapshot.hash === matches[0]?.hash) ? matches[0] : undefined;
+}
+
+/**
+ * Reads a snapshot's page, or null when its file is gone. A file that no
+ * longer hashes to its name throws rather than being served as the talk.
+ */
+export async function readSnapshot(dir: string, snapshot: Snapshot): Promise<Uint8Array<ArrayBuffer> | null> {
+  let bytes: Uint8Array<ArrayBuffer>;
+  try {
+    bytes = await Deno.readFile(`${dir}/${snapshot.hash}.html`);
+  } catch {
+    return null;
+  }
+  if (toHex(await sha256(bytes)) !== snapshot.hash) {
+    throw new Error(`Snapshot ${snapshot.hash} has been altered since it was taken`);
+  }
+  return bytes;
+}
+
+/**
+ * Freezes the deck `name` into `dir` for an event, which defaults to the
+ * deck's own `event` and `date`. Files are never overwritten: the same bytes
+ * always have the same name, so taking an unchanged deck again only records
+ * the new event, and nothing at all when the event is already recorded.
+ */
+export async function takeSnapshot(
+  root: string,
+  dir: string,
+  name: string,
+  label: { event?: string; date?: string } = {},
+): Promise<{ snapshot: Snapshot; created: boolean; missing: string[] }> {
+  const entry = findDeck(await loadRegistry(`${root}/decks`), name);
+  if (!entry) throw new Error(`No deck named "${name}" in decks/`);
+
+  const { html, report } = await renderSingleFile(root, entry.path);
+  const bytes = new TextEncoder().encode(html);
+  const hash = toHex(await sha256(bytes));
+  const event = label.event ?? entry.event;
+  const date = label.date ?? entry.date;
+
+  const snapshots = await loadSnapshots(dir);
+  const existing = snapshots.find((snapshot) =>
+    snapshot.hash === hash && snapshot.event === event && snapshot.date === date
+  );
+  if (existing) return { snapshot: existing, created: false, missing: report.missing };
+
+  await Deno.mkdir(dir, { recursive: true });
+  try {
+    await Deno.writeFile(`${dir}/${hash}.html`, bytes, { createNew: true });
+  } catch (error) {
+    if (!(error instanceof Deno.errors.AlreadyExists)) throw error;
+  }
+  const snapshot: Snapshot = { hash, slug: entry.slug, title: entry.title, event, date, created: new Date().toISOString() };
+  await Deno.writeTextFile(`${dir}/${manifestName}`, `${JSON.stringify([...snapshots, snapshot], null, 2)}\n`);
+  return { snapshot, created: true, missing: report.missing };
+}
+
+/** The `/archive` page. */
+export function renderArchive(snapshots: Snapshot[]): string {
+  const items = snapshots
+    .map((snapshot) => {
+      const details = [snapshot.event, snapshot.date].filter((d): d is string => Boolean(d)).map(escapeHtml).join(" · ");
+      return `
+        <li>
+          <a class="title" href="/archive/${snapshot.hash}">${escapeHtml(snapshot.title)}</a>
+          ${details ? `<p>${details}</p>` : ""}
+          <p class="aliases">
+            Taken ${escapeHtml(snapshot.created.slice(0, 10))} from
+            <a href="/deck/${escapeHtml(snapshot.slug)}">/deck/${escapeHtml(snapshot.slug)}</a>
+            · <code title="SHA-256 ${snapshot.hash}">${snapshot.hash.slice(0, minPrefix)}</code>
+          </p>
+        </li>
+      `;
+    })
+    .join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>Archive</title>
+  <style>
+${listPageStyle}
+code { font-size: 0.85rem; }
+  </style>
+</head>
+<body>
+  <main>
+    <h1>Archive</h1>
+    <p>Each deck as it was shown at an event. These pages never change; the live decks are at <a href="/decks">/decks</a>.</p>
+    ${items ? `<ul>${items}</ul>` : `<p>No snapshots yet.</p>`}
+  </main>
+</body>
+</html>`;
+}
+
+if (import.meta.main) {
+  const name = Deno.args.find((arg) => !arg.startsWith("--"));
+  const date = flag("date");
+  if (!name) {
+    console.error(`Usage: deno run -A snapshot.ts <deck> [--event="Web 3 Weekends"] [--date=2026-02-27]`);
+    Deno.exit(1);
+  }
+  if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    console.error(`Can't read --date=${date}; use YYYY-MM-DD`);
+    Deno.exit(1);
+  }
+  try {
+    const { snapshot, created, missing } = await takeSnapshot(Deno.cwd(), `${Deno.cwd()}/snapshots`, name, {
+      event: flag("event"),
+      date,
+    });
+    const label = [snapshot.event, snapshot.date].filter(Boolean).join(" ");
+    console.log(`${created ? "Snapshot" : "Already snapshotted"}: ${snapshot.title}${label ? ` (${label})` : ""}`);
+    console.log(`  /archive/${snapshot.hash}`);
+    for (const path of missing) console.warn(`  not found, left as is: ${path}`);
+  } catch (error) {
+    console.error((error as Error).message);
+    Deno.exit(1);
+  }
+}
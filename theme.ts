@@ -0,0 +1,14 @@
+// The palette the tool pages share: the presenter view, the phone remote and
+// the ANProto playground. Decks carry their own styles.
+export const themeStyle = `    :root {
+      color-scheme: dark;
+      --bg: #05070c;
+      --panel: #0d131f;
+      --ink: #f4fbff;
+      --muted: #a8bad0;
+      --accent: #31f0ff;
+      --ok: #5ee08a;
+      --warn: #ff5cbb;
+    }
+
+    * { box-sizing: border-box; }`;
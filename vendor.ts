@@ -0,0 +1,208 @@
+// Offline copies of the external images and fonts the decks use. Run
+// `deno run -A vendor.ts` once while online: it downloads every external
+// `<img>` and CSS `url()`/`@import` found in decks/ and slides/ into vendor/
+// and records them in vendor/manifest.json. Rendered decks then point at the
+// local copies. It also captures the `fallback=` screenshot of every
+// `{{embed: ...}}` that doesn't have one yet, with a headless Chrome.
+
+import { isFile, sha256, toHex } from "./util.ts";
+
+/** Maps an external URL to its local copy, relative to the repo root. */
+export type VendorManifest = Record<string, string>;
+
+const manifestPath = "vendor/manifest.json";
+
+// Google Fonts only serves woff2 to browsers it recognises.
+const userAgent =
+  "Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36";
+
+async function readManifest(root: string): Promise<VendorManifest> {
+  try {
+    return JSON.parse(await Deno.readTextFile(`${root}/${manifestPath}`));
+  } catch {
+    return {};
+  }
+}
+
+/** Loads the manifest, keeping only entries whose local file is present. */
+export async function loadVendorManifest(root: string): Promise<VendorManifest> {
+  const present: VendorManifest = {};
+  for (const [url, path] of Object.entries(await readManifest(root))) {
+    if (await isFile(`${root}/${path}`)) present[url] = path;
+  }
+  return present;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Swaps every quoted or `url()`-wrapped occurrence of a vendored URL for its
+ * local path, in HTML or CSS.
+ */
+export function localizeAssets(text: string, manifest: VendorManifest): string {
+  let result = text;
+  for (const [url, path] of Object.entries(manifest)) {
+    for (const form of new Set([url, url.replaceAll("&", "&amp;")])) {
+      const pattern = new RegExp(`(?<=["'(])${escapeRegExp(form)}(?=["')])`, "g");
+      result = result.replace(pattern, `/${path}`);
+    }
+  }
+  return result;
+}
+
+/** External image and stylesheet URLs referenced by deck HTML or CSS. */
+export function externalAssets(text: string): string[] {
+  const urls = new Set<string>();
+  for (const match of text.matchAll(/<img\b[^>]*\bsrc=["'](https?:\/\/[^"']+)["']/g)) {
+    urls.add(match[1].replaceAll("&amp;", "&"));
+  }
+  for (const match of text.matchAll(/url\(\s*["']?(https?:\/\/[^"')\s]+)["']?\s*\)/g)) {
+    urls.add(match[1]);
+  }
+  return [...urls];
+}
+
+// vendor/<host>/<hash>-<name>, so two files with the same name never collide.
+async function localPath(url: string, extension = ""): Promise<string> {
+  const { host, pathname } = new URL(url);
+  const name = (pathname.split("/").pop() || "index").replace(/[^\w.-]/g, "_");
+  const suffix = extension && !name.endsWith(extension) ? extension : "";
+  return `vendor/${host}/${toHex((await sha256(url)).slice(0, 4))}-${name}${suffix}`;
+}
+
+async function download(url: string): Promise<Response> {
+  const response = await fetch(url, { headers: { "user-agent": userAgent } });
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  return response;
+}
+
+async function save(root: string, path: string, data: Uint8Array | string): Promise<void> {
+  const full = `${root}/${path}`;
+  await Deno.mkdir(full.slice(0, full.lastIndexOf("/")), { recursive: true });
+  if (typeof data === "string") await Deno.writeTextFile(full, data);
+  else await Deno.writeFile(full, data);
+}
+
+// Stylesheets (web fonts) are saved with the files they reference next to
+// them, rewritten to relative paths so they also work outside the server.
+async function vendorStylesheet(root: string, url: string, css: string): Promise<string> {
+  const path = await localPath(url, ".css");
+  let local = css;
+  for (const asset of externalAssets(css)) {
+    const assetPath = await localPath(asset);
+    await save(root, assetPath, new Uint8Array(await (await download(asset)).arrayBuffer()));
+    local = local.replaceAll(asset, `../${assetPath.slice("vendor/".length)}`);
+  }
+  await save(root, path, local);
+  return path;
+}
+
+// Deck and library slide sources, which is where external assets and embeds
+// are declared.
+async function readSources(root: string): Promise<string[]> {
+  const sources: string[] = [];
+  for (const dir of ["decks", "slides"]) {
+    for await (const entry of Deno.readDir(`${root}/${dir}`)) {
+      if (entry.isFile && /\.(md|css)$/.test(entry.name)) {
+        sources.push(await Deno.readTextFile(`${root}/${dir}/${entry.name}`));
+      }
+    }
+  }
+  return sources;
+}
+
+/** The `{{embed: url | fallback=path}}` includes in deck or slide Markdown. */
+export function embedFallbacks(text: string): { url: string; path: string }[] {
+  const embeds: { url: string; path: string }[] = [];
+  for (const match of text.matchAll(/\{\{\s*embed\s*:\s*(\S+)([^}]*)\}\}/g)) {
+    const path = match[2].match(/\|\s*fallback=([^|\s]+)/)?.[1];
+    if (path) embeds.push({ url: match[1], path });
+  }
+  return embeds;
+}
+
+// Chrome or Chromium, from $CHROME or the usual command names.
+async function findBrowser(): Promise<string | undefined> {
+  const candidates = [
+    Deno.env.get("CHROME"),
+    "chromium",
+    "chromium-browser",
+    "google-chrome",
+    "google-chrome-stable",
+    "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+  ];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      const { success } = await new Deno.Command(candidate, { args: ["--version"], stdout: "null", stderr: "null" })
+        .output();
+      if (success) return candidate;
+    } catch {
+      // Not installed under this name.
+    }
+  }
+  return undefined;
+}
+
+async function captureScreenshots(root: string, sources: string[]): Promise<void> {
+  const missing = [];
+  for (const embed of sources.flatMap(embedFallbacks)) {
+    if (!await isFile(`${root}/${embed.path}`)) missing.push(embed);
+  }
+  if (!missing.length) return;
+
+  const browser = await findBrowser();
+  if (!browser) {
+    console.error("No Chrome or Chromium found (set CHROME=/path/to/chrome); add these screenshots by hand:");
+    for (const embed of missing) console.error(`  ${embed.path} (${embed.url})`);
+    return;
+  }
+  for (const embed of missing) {
+    const full = `${root}/${embed.path}`;
+    await Deno.mkdir(full.slice(0, full.lastIndexOf("/")), { recursive: true });
+    try {
+      await new Deno.Command(browser, {
+        args: ["--headless", "--disable-gpu", "--hide-scrollbars", "--window-size=1280,800", `--screenshot=${full}`, embed.url],
+        stdout: "null",
+        stderr: "null",
+        signal: AbortSignal.timeout(60_000),
+      }).output();
+    } catch (error) {
+      console.error(`failed ${embed.url}: ${(error as Error).message}`);
+      continue;
+    }
+    if (await isFile(full)) console.log(`captured ${embed.url} -> ${embed.path}`);
+    else console.error(`failed ${embed.url}: no screenshot written`);
+  }
+}
+
+async function vendorAll(root: string): Promise<void> {
+  const manifest = await readManifest(root);
+  const sources = await readSources(root);
+  const urls = new Set(sources.flatMap(externalAssets));
+
+  for (const url of urls) {
+    if (manifest[url] && await isFile(`${root}/${manifest[url]}`)) continue;
+    try {
+      const response = await download(url);
+      if ((response.headers.get("content-type") ?? "").includes("text/css")) {
+        manifest[url] = await vendorStylesheet(root, url, await response.text());
+      } else {
+        manifest[url] = await localPath(url);
+        await save(root, manifest[url], new Uint8Array(await response.arrayBuffer()));
+      }
+      console.log(`vendored ${url} -> ${manifest[url]}`);
+    } catch (error) {
+      console.error(`failed ${url}: ${(error as Error).message}`);
+    }
+  }
+
+  await save(root, manifestPath, `${JSON.stringify(manifest, null, 2)}\n`);
+  await captureScreenshots(root, sources);
+}
+
+if (import.meta.main) {
+  await vendorAll(Deno.cwd());
+}
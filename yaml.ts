@@ -0,0 +1,296 @@
+// Just enough YAML for data files: block mappings and sequences nested by
+// indentation, flow `[a, b]` and `{ key: value }` collections, plain, single-
+// and double-quoted scalars, `|` and `>` block scalars, and `#` comments.
+// Anchors, tags and multiple documents are not supported and raise a
+// YamlError naming the line.
+
+export type YamlValue = string | number | boolean | null | YamlValue[] | { [key: string]: YamlValue };
+
+export class YamlError extends Error {
+  constructor(readonly reason: string, readonly line: number) {
+    super(`line ${line}: ${reason}`);
+    this.name = "YamlError";
+  }
+}
+
+interface Line {
+  indent: number;
+  text: string;
+  /** 1-based line number in the source. */
+  number: number;
+}
+
+// Strips a trailing comment: a `#` at the start or after whitespace, outside
+// of quotes.
+function stripComment(text: string): string {
+  let quote = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = "";
+      else if (ch === "\\" && quote === '"') i++;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+function plainScalar(text: string): YamlValue {
+  if (/^(?:~|null|Null|NULL)?$/.test(text)) return null;
+  if (/^(?:true|True|TRUE)$/.test(text)) return true;
+  if (/^(?:false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?(?:\d[\d_]*)?(?:\.\d+)?(?:[eE][-+]?\d+)?$/.test(text) && /\d/.test(text)) return Number(text);
+  return text;
+}
+
+const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", "0": "\0", '"': '"', "\\": "\\", "/": "/" };
+
+function quotedScalar(text: string, number: number): { value: string; rest: string } {
+  const quote = text[0];
+  let value = "";
+  for (let i = 1; i < text.length; i++) {
+    const ch = text[i];
+    if (quote === "'" && ch === "'") {
+      if (text[i + 1] === "'") {
+        value += "'";
+        i++;
+        continue;
+      }
+      return { value, rest: text.slice(i + 1) };
+    }
+    if (quote === '"' && ch === '"') return { value, rest: text.slice(i + 1) };
+    if (quote === '"' && ch === "\\") {
+      const next = text[++i];
+      if (next === "u" || next === "x") {
+        const width = next === "u" ? 4 : 2;
+        value += String.fromCharCode(parseInt(text.slice(i + 1, i + 1 + width), 16));
+        i += width;
+      } else {
+        value += escapes[next] ?? next;
+      }
+      continue;
+    }
+    value += ch;
+  }
+  throw new YamlError("unterminated quoted string", number);
+}
+
+// Parses a flow collection or scalar starting at `text[at]`, returning the
+// value and the index just past it.
+function parseFlow(text: string, at: number, number: number, inFlow: boolean): { value: YamlValue; end: number } {
+  while (text[at] === " ") at++;
+  const ch = text[at];
+
+  if (ch === "[" || ch === "{") {
+    const close = ch === "[" ? "]" : "}";
+    const list: YamlValue[] = [];
+    const map: Record<string, YamlValue> = {};
+    let i = at + 1;
+    for (;;) {
+      while (text[i] === " ") i++;
+      if (text[i] === close) return { value: ch === "[" ? list : map, end: i + 1 };
+      if (i >= text.length) throw new YamlError(`missing "${close}"`, number);
+      const item = parseFlow(text, i, number, true);
+      i = item.end;
+      while (text[i] === " ") i++;
+      if (ch === "{") {
+        if (text[i] !== ":") throw new YamlError(`expected ":" in a flow mapping`, number);
+        const value = parseFlow(text, i + 1, number, true);
+        map[String(item.value)] = value.value;
+        i = value.end;
+        while (text[i] === " ") i++;
+      } else {
+        list.push(item.value);
+      }
+      if (text[i] === ",") i++;
+      else if (text[i] !== close) throw new YamlError(`expected "," or "${close}"`, number);
+    }
+  }
+
+  if (ch === '"' || ch === "'") {
+    const { value, rest } = quotedScalar(text.slice(at), number);
+    return { value, end: text.length - rest.length };
+  }
+
+  // Inside flow collections a plain scalar also ends at `,`, `]`, `}` and `: `.
+  const stop = inFlow ? /,|\]|\}|:(?=\s|$)/g : /$/g;
+  stop.lastIndex = at;
+  const match = stop.exec(text);
+  const end = match ? match.index : text.length;
+  return { value: plainScalar(text.slice(at, end).trim()), end };
+}
+
+function scalarValue(text: string, number: number): YamlValue {
+  const { value, end } = parseFlow(text, 0, number, false);
+  if (text.slice(end).trim()) throw new YamlError(`unexpected text after value: ${text.slice(end).trim()}`, number);
+  return value;
+}
+
+// Splits `key: value` at the first `:` followed by a space or the end of the
+// line, allowing quoted keys.
+function splitKey(text: string, number: number): { key: string; rest: string } | null {
+  if (text[0] === '"' || text[0] === "'") {
+    const { value, rest } = quotedScalar(text, number);
+    const match = rest.match(/^\s*:(?:\s+|$)/);
+    return match ? { key: value, rest: rest.slice(match[0].length) } : null;
+  }
+  const match = text.match(/^([^#{}\[\],][^]*?)\s*:(?:\s+|$)/);
+  return match ? { key: match[1], rest: text.slice(match[0].length) } : null;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly lines: Line[], private readonly raw: string[]) {}
+
+  parse(): YamlValue {
+    if (!this.lines.length) return null;
+    const value = this.block(this.lines[0].indent);
+    if (this.index < this.lines.length) {
+      throw new YamlError("unexpected indentation", this.lines[this.index].number);
+    }
+    return value;
+  }
+
+  private block(indent: number): YamlValue {
+    const line = this.lines[this.index];
+    if (line.text.startsWith("- ") || line.text === "-") return this.sequence(indent);
+    if (splitKey(line.text, line.number)) return this.mapping(indent);
+    this.index++;
+    return scalarValue(line.text, line.number);
+  }
+
+  private sequence(indent: number): YamlValue[] {
+    const items: YamlValue[] = [];
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent !== indent || !(line.text.startsWith("- ") || line.text === "-")) break;
+      const rest = line.text.slice(1).trimStart();
+      if (!rest) {
+        this.index++;
+        items.push(this.nested(indent));
+        continue;
+      }
+      // `- key: value` opens a mapping whose keys line up after the dash.
+      const itemIndent = indent + (line.text.length - rest.length);
+      this.lines[this.index] = { ...line, indent: itemIndent, text: rest };
+      items.push(this.block(itemIndent));
+    }
+    return items;
+  }
+
+  private mapping(indent: number): Record<string, YamlValue> {
+    const map: Record<string, YamlValue> = {};
+    while (this.index < this.lines.length) {
+      const line = this.lines[this.index];
+      if (line.indent !== indent) {
+        if (line.indent > indent) throw new YamlError("unexpected indentation", line.number);
+        break;
+      }
+      const pair = splitKey(line.text, line.number);
+      if (!pair) throw new YamlError(`expected "key: value", got: ${line.text}`, line.number);
+      if (Object.hasOwn(map, pair.key)) throw new YamlError(`duplicate key "${pair.key}"`, line.number);
+      this.index++;
+      if (/^[|>][+-]?$/.test(pair.rest)) {
+        map[pair.key] = this.blockScalar(pair.rest, indent, line.number);
+      } else if (pair.rest) {
+        map[pair.key] = scalarValue(pair.rest, line.number);
+      } else {
+        map[pair.key] = this.nested(indent, true);
+      }
+    }
+    return map;
+  }
+
+  // The value on the lines after `key:` or a bare `-`. A sequence may sit at
+  // the same indentation as its mapping key.
+  private nested(indent: number, allowSameIndentSequence = false): YamlValue {
+    const next = this.lines[this.index];
+    if (!next) return null;
+    if (next.indent > indent) return this.block(next.indent);
+    if (allowSameIndentSequence && next.indent === indent && next.text.startsWith("- ")) {
+      return this.sequence(indent);
+    }
+    return null;
+  }
+
+  // `|` keeps line breaks and `>` folds them into spaces; `-` drops the final
+  // newline and `+` keeps trailing blank lines.
+  private blockScalar(header: string, indent: number, number: number): string {
+    const lines: string[] = [];
+    let bodyIndent = -1;
+    let rawAt = number;
+    for (; rawAt < this.raw.length; rawAt++) {
+      const text = this.raw[rawAt];
+      if (text.trim()) {
+        const lineIndent = text.length - text.trimStart().length;
+        if (bodyIndent === -1) bodyIndent = lineIndent;
+        if (lineIndent <= indent || lineIndent < bodyIndent) break;
+        lines.push(text.slice(bodyIndent));
+      } else {
+        lines.push("");
+      }
+    }
+    while (this.index < this.lines.length && this.lines[this.index].number <= rawAt) this.index++;
+
+    const trailing = lines.length - (lines.findLastIndex((line) => line !== "") + 1);
+    const body = lines.slice(0, lines.length - trailing);
+    const text = header[0] === ">" ? foldLines(body) : body.join("\n");
+    if (header.endsWith("-")) return text;
+    if (header.endsWith("+")) return text + "\n".repeat(trailing + 1);
+    return `${text}\n`;
+  }
+}
+
+// Folding joins neighbouring lines with a space. A run of blank lines stands
+// for that many newlines instead, and lines indented further than the block
+// keep their line breaks.
+function foldLines(lines: string[]): string {
+  let text = "";
+  let blanks = 0;
+  let previous: string | null = null;
+  for (const line of lines) {
+    if (!line) {
+      blanks++;
+      continue;
+    }
+    if (previous === null) text += "\n".repeat(blanks);
+    else if (/^\s/.test(previous) || /^\s/.test(line)) text += "\n".repeat(blanks + 1);
+    else text += blanks ? "\n".repeat(blanks) : " ";
+    text += line;
+    previous = line;
+    blanks = 0;
+  }
+  return text;
+}
+
+/** Parses a YAML document into plain JSON-style values. */
+export function parseYaml(source: string): YamlValue {
+  const raw = source.replace(/\r\n?/g, "\n").split("\n");
+  const lines: Line[] = [];
+  // Lines inside a `|` or `>` block scalar are read raw by the parser.
+  let blockParent = -1;
+  for (const [i, line] of raw.entries()) {
+    if (blockParent >= 0) {
+      if (!line.trim() || line.length - line.trimStart().length > blockParent) continue;
+      blockParent = -1;
+    }
+    if (/^(?:---|\.\.\.)\s*$/.test(line)) {
+      if (lines.length) throw new YamlError("only one document per file is supported", i + 1);
+      continue;
+    }
+    if (/^\s*\t/.test(line)) throw new YamlError("tabs are not allowed for indentation", i + 1);
+    const text = stripComment(line);
+    if (!text.trim()) continue;
+    if (/^\s*[&*!]/.test(text) || /:\s+[&*!]/.test(text)) {
+      throw new YamlError("anchors, aliases and tags are not supported", i + 1);
+    }
+    const indent = text.length - text.trimStart().length;
+    if (/:\s+[|>][+-]?$/.test(text)) blockParent = indent;
+    lines.push({ indent, text: text.trim(), number: i + 1 });
+  }
+  return new Parser(lines, raw).parse();
+}
@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { parseYaml, YamlError } from "./yaml.ts";
+
+Deno.test("reads plain scalars as numbers, booleans, null or text", () => {
+  assert.deepEqual(parseYaml("a: 1\nb: -2.5\nc: true\nd: ~\ne: null\nf: 2015 (2012 as scuttlebutt)\ng: yes\n"), {
+    a: 1,
+    b: -2.5,
+    c: true,
+    d: null,
+    e: null,
+    f: "2015 (2012 as scuttlebutt)",
+    g: "yes",
+  });
+});
+
+Deno.test("reads quoted scalars and strips comments outside them", () => {
+  assert.deepEqual(
+    parseYaml(`s: "tab\\there \\"q\\" \\u00e9"\nt: 'it''s'\nu: a # comment\nv: "# not"\nw: http://x/#frag\n`),
+    { s: 'tab\there "q" é', t: "it's", u: "a", v: "# not", w: "http://x/#frag" },
+  );
+});
+
+Deno.test("nests block and flow collections", () => {
+  assert.deepEqual(
+    parseYaml("list:\n  - one\n  - [two, three]\n  - { k: v, n: 2 }\n  - name: SSB\n    values:\n      Keys: ed25519\n"),
+    { list: ["one", ["two", "three"], { k: "v", n: 2 }, { name: "SSB", values: { Keys: "ed25519" } }] },
+  );
+  assert.deepEqual(parseYaml("- a\n- - b\n  - c\n"), ["a", ["b", "c"]]);
+  assert.deepEqual(parseYaml("empty:\nnext: 1\n"), { empty: null, next: 1 });
+});
+
+Deno.test("keeps or folds block scalar lines, with chomping", () => {
+  assert.deepEqual(
+    parseYaml("lit: |\n  line one\n   indented\n\n  end\nkeep: |+\n  x\n\nstrip: >-\n  y\n"),
+    { lit: "line one\n indented\n\nend\n", keep: "x\n\n", strip: "y" },
+  );
+  // Blank lines stand for newlines, and more-indented lines aren't folded.
+  assert.deepEqual(parseYaml("f: >\n  a\n  b\n\n\n  c\n   more\n  d\n"), { f: "a b\n\nc\n more\nd\n" });
+  assert.deepEqual(parseYaml("f: >\n  one\n  two\n\n  three\n"), { f: "one two\nthree\n" });
+});
+
+Deno.test("rejects what it doesn't support, naming the line", () => {
+  const cases: [string, string][] = [
+    ["a: &x 1\n", "line 1: anchors, aliases and tags are not supported"],
+    ["a: 1\n---\nb: 2\n", "line 2: only one document per file is supported"],
+    ["a:\n\tb: 1\n", "line 2: tabs are not allowed for indentation"],
+    ["a: 1\na: 2\n", `line 2: duplicate key "a"`],
+    ["a: [1, 2\n", `line 1: expected "," or "]"`],
+    ["a: 'x\n", "line 1: unterminated quoted string"],
+    ["a: 1\n    b: 2\n", "line 2: unexpected indentation"],
+  ];
+  for (const [source, message] of cases) {
+    assert.throws(() => parseYaml(source), (error) => error instanceof YamlError && error.message === message);
+  }
+});